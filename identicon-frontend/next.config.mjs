@@ -1,7 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    output: 'export'
-
+    // The API routes (keyed identicon specs) need a server, so the site is no longer a static export
 };
 
 export default nextConfig;
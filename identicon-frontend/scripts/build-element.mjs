@@ -0,0 +1,35 @@
+/**
+ * build-element.mjs
+ *
+ * This script bundles the `<identicon-3d>` custom element into a single self-contained script, for pages that are not
+ * built with a bundler: React, Three.js and the identicon code are all included, and loading the script registers the
+ * element. The bundle is written to `public/identicon-3d.js`, so the site also serves it at `/identicon-3d.js`.
+ *
+ * Like Next.js, the script inlines NEXT_PUBLIC_IDENTICON_KEYED at build time, so a bundle built for a keyed site
+ * fetches its identicons from that site's spec route.
+ *
+ * Usage: npm run build:element
+ */
+
+import { build } from 'esbuild';
+
+await build({
+  entryPoints: ['src/identicon3d/element.ts'],
+  outfile: 'public/identicon-3d.js',
+  bundle: true,
+  minify: true,
+  format: 'iife',
+  platform: 'browser',
+  target: 'es2020',
+  jsx: 'automatic',
+  legalComments: 'eof',
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+    'process.env.NEXT_PUBLIC_IDENTICON_KEYED': JSON.stringify(process.env.NEXT_PUBLIC_IDENTICON_KEYED ?? ''),
+    // Settings Next.js injects into next/image; without them it falls back to its defaults
+    'process.env.__NEXT_IMAGE_OPTS': 'undefined',
+    'process.env.__NEXT_OPTIMIZE_FONTS': 'undefined',
+    'process.env.NEXT_DEPLOYMENT_ID': 'undefined',
+  },
+  logLevel: 'info',
+});
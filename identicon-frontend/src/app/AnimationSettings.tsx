@@ -0,0 +1,138 @@
+/**
+ * AnimationSettings.tsx
+ *
+ * This file defines the AnimationSettings component, which renders the controls for choosing how an identicon animation is recorded: its format, motion, size, frame count, frame rate and post-processing effects.
+ * It is used next to the animation download buttons in both MainContent and Sidebar.
+ */
+
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FRAME_COUNTS,
+  ANIMATION_FRAME_RATES,
+  ANIMATION_MODES,
+  ANIMATION_SIZES,
+  AnimationFormat,
+  AnimationMode,
+  AnimationOptions,
+} from './animationExport';
+
+// Loop durations offered in seconds, applied by changing the frame count at the current frame rate
+const loopDurations = [2, 3, 4, 6, 8];
+
+// Labels of the recorded motions
+const modeLabels: Record<AnimationMode, string> = {
+  wobble: 'Wobble',
+  orbit: '360° orbit',
+};
+
+/**
+ * Props for the AnimationSettings component
+ *
+ * @interface AnimationSettingsProps
+ * @property {AnimationOptions} options - The current animation options.
+ * @property {function} onChange - Callback receiving the updated animation options.
+ * @property {string} selectClassName - Class names applied to the dropdown menus.
+ * @property {string} labelClassName - Class names applied to the checkbox labels.
+ */
+interface AnimationSettingsProps {
+  options: AnimationOptions;
+  onChange: (options: AnimationOptions) => void;
+  selectClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * AnimationSettings component
+ *
+ * Renders dropdown menus for the format, motion, size, frame count, frame rate and loop duration of an animation, and a checkbox for the post-processing effects.
+ * The loop duration is the frame count divided by the frame rate, so choosing a duration updates the frame count.
+ *
+ * @param {AnimationSettingsProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered animation controls.
+ */
+const AnimationSettings: React.FC<AnimationSettingsProps> = ({ options, onChange, selectClassName, labelClassName }) => {
+  const duration = options.frames / options.fps;
+  const durations = loopDurations.includes(duration) ? loopDurations : [...loopDurations, duration].sort((a, b) => a - b);
+
+  return (
+    <>
+      {/* Dropdown menu to select the animation format */}
+      <select
+        value={options.format}
+        onChange={(e) => onChange({ ...options, format: e.target.value as AnimationFormat })}
+        className={selectClassName}
+      >
+        {ANIMATION_FORMATS.map((format) => (
+          <option key={format} value={format}>{format.toUpperCase()}</option>
+        ))}
+      </select>
+
+      {/* Dropdown menu to select the recorded motion */}
+      <select
+        value={options.mode}
+        onChange={(e) => onChange({ ...options, mode: e.target.value as AnimationMode })}
+        className={selectClassName}
+      >
+        {ANIMATION_MODES.map((mode) => (
+          <option key={mode} value={mode}>{modeLabels[mode]}</option>
+        ))}
+      </select>
+
+      {/* Dropdown menu to select the animation size */}
+      <select
+        value={options.size}
+        onChange={(e) => onChange({ ...options, size: parseInt(e.target.value) })}
+        className={selectClassName}
+      >
+        {ANIMATION_SIZES.map((size) => (
+          <option key={size} value={size}>{size}x{size}</option>
+        ))}
+      </select>
+
+      {/* Dropdown menu to select the number of frames */}
+      <select
+        value={options.frames}
+        onChange={(e) => onChange({ ...options, frames: parseInt(e.target.value) })}
+        className={selectClassName}
+      >
+        {(ANIMATION_FRAME_COUNTS.includes(options.frames) ? ANIMATION_FRAME_COUNTS : [...ANIMATION_FRAME_COUNTS, options.frames].sort((a, b) => a - b)).map((frames) => (
+          <option key={frames} value={frames}>{frames} frames</option>
+        ))}
+      </select>
+
+      {/* Dropdown menu to select the frame rate */}
+      <select
+        value={options.fps}
+        onChange={(e) => onChange({ ...options, fps: parseInt(e.target.value) })}
+        className={selectClassName}
+      >
+        {ANIMATION_FRAME_RATES.map((fps) => (
+          <option key={fps} value={fps}>{fps} fps</option>
+        ))}
+      </select>
+
+      {/* Dropdown menu to select the loop duration */}
+      <select
+        value={duration}
+        onChange={(e) => onChange({ ...options, frames: Math.max(1, Math.round(parseFloat(e.target.value) * options.fps)) })}
+        className={selectClassName}
+      >
+        {durations.map((seconds) => (
+          <option key={seconds} value={seconds}>{Number(seconds.toFixed(2))}s loop</option>
+        ))}
+      </select>
+
+      {/* Checkbox to toggle the post-processing effects */}
+      <label className={labelClassName}>
+        <input
+          type="checkbox"
+          checked={options.effects}
+          onChange={(e) => onChange({ ...options, effects: e.target.checked })}
+        />{' '}
+        Effects
+      </label>
+    </>
+  );
+};
+
+export default AnimationSettings;
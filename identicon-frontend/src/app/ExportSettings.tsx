@@ -0,0 +1,98 @@
+/**
+ * ExportSettings.tsx
+ *
+ * This file defines the ExportSettings component, which renders the controls for choosing how an identicon is exported: its size, image format, quality, background transparency and post-processing effects.
+ * It is used next to the download buttons in both MainContent and Sidebar.
+ */
+
+import { EXPORT_FORMATS, EXPORT_SIZES, ExportFormat, ExportOptions } from './exportRenderer';
+
+// Quality levels offered for lossy formats
+const qualities = [0.6, 0.75, 0.92, 1];
+
+/**
+ * Props for the ExportSettings component
+ *
+ * @interface ExportSettingsProps
+ * @property {ExportOptions} options - The current export options.
+ * @property {function} onChange - Callback receiving the updated export options.
+ * @property {string} selectClassName - Class names applied to the dropdown menus.
+ * @property {string} labelClassName - Class names applied to the checkbox labels.
+ */
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  selectClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * ExportSettings component
+ *
+ * Renders dropdown menus for the size, format and quality of an export, and checkboxes for a transparent background and the post-processing effects.
+ * The quality dropdown is only shown for lossy formats, and transparency is unavailable for JPEG.
+ *
+ * @param {ExportSettingsProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered export controls.
+ */
+const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange, selectClassName, labelClassName }) => (
+  <>
+    {/* Dropdown menu to select the export size */}
+    <select
+      value={options.size}
+      onChange={(e) => onChange({ ...options, size: parseInt(e.target.value) })}
+      className={selectClassName}
+    >
+      {EXPORT_SIZES.map((size) => (
+        <option key={size} value={size}>{size}x{size}</option>
+      ))}
+    </select>
+
+    {/* Dropdown menu to select the image format */}
+    <select
+      value={options.format}
+      onChange={(e) => onChange({ ...options, format: e.target.value as ExportFormat })}
+      className={selectClassName}
+    >
+      {EXPORT_FORMATS.map((format) => (
+        <option key={format} value={format}>{format.toUpperCase()}</option>
+      ))}
+    </select>
+
+    {/* Dropdown menu to select the quality of lossy formats */}
+    {options.format !== 'png' && (
+      <select
+        value={options.quality}
+        onChange={(e) => onChange({ ...options, quality: parseFloat(e.target.value) })}
+        className={selectClassName}
+      >
+        {qualities.map((quality) => (
+          <option key={quality} value={quality}>{Math.round(quality * 100)}% quality</option>
+        ))}
+      </select>
+    )}
+
+    {/* Checkbox to export with a transparent background */}
+    <label className={labelClassName}>
+      <input
+        type="checkbox"
+        checked={options.format !== 'jpeg' && options.background === null}
+        disabled={options.format === 'jpeg'}
+        onChange={(e) => onChange({ ...options, background: e.target.checked ? null : '#ffffff' })}
+      />{' '}
+      Transparent
+    </label>
+
+    {/* Checkbox to toggle the post-processing effects */}
+    <label className={labelClassName}>
+      <input
+        type="checkbox"
+        checked={options.effects}
+        onChange={(e) => onChange({ ...options, effects: e.target.checked })}
+      />{' '}
+      Effects
+    </label>
+  </>
+);
+
+export default ExportSettings;
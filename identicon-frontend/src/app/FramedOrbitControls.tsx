@@ -0,0 +1,54 @@
+/**
+ * FramedOrbitControls.tsx
+ *
+ * This file defines the FramedOrbitControls component, which fits the camera of a live identicon scene to its shapes
+ * with the chosen framing mode and lets the user orbit around them. It places the camera exactly like the offscreen
+ * exporters and the GPU-free renderers do, so downloads show what the page shows.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { IdenticonSpec } from './identiconSpec';
+import { FIXED_FRAMING, frameIdenticon, FramingMode } from './framing';
+
+/**
+ * Props for the FramedOrbitControls component
+ *
+ * @interface FramedOrbitControlsProps
+ * @property {IdenticonSpec | null} spec - The spec of the identicon in the scene, or null while it is loading.
+ * @property {FramingMode} framing - How the camera is fitted to the shapes.
+ * @property {boolean} [interactive] - Whether the user can orbit, zoom and pan. Defaults to true.
+ */
+interface FramedOrbitControlsProps {
+  spec: IdenticonSpec | null;
+  framing: FramingMode;
+  interactive?: boolean;
+}
+
+/**
+ * FramedOrbitControls component
+ *
+ * Moves the camera to the framed position whenever the spec, the framing mode or the canvas aspect ratio changes, which
+ * also resets any orbiting, and renders orbit controls turning around the framed target. Must be used inside a Canvas.
+ *
+ * @param {FramedOrbitControlsProps} props - The properties for the component.
+ * @returns {JSX.Element} The orbit controls.
+ */
+const FramedOrbitControls: React.FC<FramedOrbitControlsProps> = ({ spec, framing, interactive = true }) => {
+  const camera = useThree((state) => state.camera);
+  const invalidate = useThree((state) => state.invalidate);
+  const aspect = useThree((state) => state.size.height ? state.size.width / state.size.height : 1);
+
+  const placement = useMemo(() => spec ? frameIdenticon(spec, framing, aspect) : FIXED_FRAMING, [spec, framing, aspect]);
+
+  useEffect(() => {
+    camera.position.set(...placement.position);
+    camera.lookAt(...placement.target);
+    invalidate();
+  }, [camera, placement, invalidate]);
+
+  return <OrbitControls target={placement.target} enableRotate={interactive} enableZoom={interactive} enablePan={interactive} />;
+};
+
+export default FramedOrbitControls;
@@ -1,128 +1,187 @@
-import React, { useMemo, useRef, useEffect } from 'react';
+/**
+ * GeometricIdenticonNew.tsx
+ *
+ * This file defines the scene of the "head" identicon style: a human head model, tinted and posed from the seed's hash,
+ * surrounded by a tilted ring of hash-driven primitives, wearing an optional accessory and lit in the seed's color.
+ * Everything shown comes from the head spec built by buildHeadSpec, or fetched from the server in keyed mode, so the
+ * component only draws it.
+ */
+
+import React, { useEffect, useMemo } from 'react';
 import { useLoader } from '@react-three/fiber';
 import { GLTFLoader } from 'three-stdlib';
-import { Box3, Vector3, Color, Euler, CylinderGeometry, SphereGeometry, BoxGeometry, ConeGeometry } from 'three';
-import CryptoJS from 'crypto-js';
-import * as THREE from 'three';
-
-interface GeometricIdenticonProps {
-  seed: string;
-}
-
-const GeometricIdenticon: React.FC<GeometricIdenticonProps> = ({ seed }) => {
-  const gltf = useLoader(GLTFLoader, './human_head.glb');
-  const materialRef = useRef<THREE.MeshStandardMaterial | null>(null);
-
-  const { color, scale, rotation, cylinderSize, primitives } = useMemo(() => {
-    const hash = CryptoJS.SHA256(seed).toString();
-    const hue = parseInt(hash.substring(0, 2), 16);
-    const hslColor = new Color(`hsl(${hue % 360}, 70%, 50%)`).getHexString();
-
-    const baseScale = 10; // Base scale for the head
-    const scaleVariation = 0.05; // Minor variation for scale
-    const scaleX = baseScale + (parseInt(hash.substring(2, 4), 16) % 5) * scaleVariation;
-    const scaleY = baseScale + (parseInt(hash.substring(4, 6), 16) % 5) * scaleVariation;
-    const scaleZ = baseScale + (parseInt(hash.substring(6, 8), 16) % 5) * scaleVariation;
-
-    const rotationVariation = Math.PI / 180; // One degree in radians
-    const rotX = (parseInt(hash.substring(8, 10), 16) % 40) * rotationVariation;
-    const rotY = (parseInt(hash.substring(10, 12), 16) % 50) * rotationVariation;
-    const rotZ = (parseInt(hash.substring(12, 14), 16) % 50) * rotationVariation;
-
-    const cylinderHeight = 15;
-    const cylinderRadius = 8;
-    const numPrimitives = 10;
-    const rotationAngle = Math.PI / 45; // Adjust this to set the desired rotation angle (45 degrees for example)
-
-    const primitivePositions = Array.from({ length: numPrimitives }, (_, i) => {
-      const angle = (i / numPrimitives) * Math.PI * 2; // Full circle divided by the number of primitives
-      const radius = cylinderRadius / 2; // Half the cylinder radius for the calculation
-      const y = radius * Math.sin(angle);
-      const x = radius * Math.cos(angle);
+import { Box3, Mesh, MeshStandardMaterial, Vector3 } from 'three';
+import { HeadAccessory, HeadPrimitive, HeadSpec } from './headSpec';
+import { useHeadSpecs } from './useIdenticonSpecs';
+
+// The head model, served from the public folder
+const HEAD_MODEL_URL = '/human_head.glb';
+
+/**
+ * Renders the geometry of a ring primitive.
+ *
+ * @param {Object} props - The component props.
+ * @param {HeadPrimitive['type']} props.type - The geometry type.
+ * @returns {JSX.Element} The geometry element.
+ */
+const PrimitiveGeometry = ({ type }: { type: HeadPrimitive['type'] }) => {
+  switch (type) {
+    case 'sphere': return <sphereGeometry args={[0.75, 16, 16]} />;
+    case 'box': return <boxGeometry args={[1.2, 1.2, 1.2]} />;
+    case 'cone': return <coneGeometry args={[0.75, 1.5, 16]} />;
+    case 'torus': return <torusGeometry args={[0.6, 0.25, 12, 32]} />;
+    case 'octahedron': return <octahedronGeometry args={[0.9, 0]} />;
+  }
+};
 
-      // Apply rotation around the X-axis
-      const newY = y * Math.cos(rotationAngle);
-      const newZ = y * Math.sin(rotationAngle);
+/**
+ * Renders the accessory worn on top of the head.
+ *
+ * @param {Object} props - The component props.
+ * @param {HeadAccessory} props.accessory - The accessory.
+ * @param {string} props.color - The accessory color as a CSS color string.
+ * @param {number} props.top - Height of the top of the head above its center.
+ * @returns {JSX.Element | null} The accessory, or null for none.
+ */
+const Accessory = ({ accessory, color, top }: { accessory: HeadAccessory, color: string, top: number }) => {
+  const material = <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.4} metalness={0.6} roughness={0.3} />;
+
+  switch (accessory) {
+    case 'none':
+      return null;
+    case 'halo':
+      return (
+        <mesh position={[0, top + 0.6, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[0.9, 0.08, 16, 48]} />
+          {material}
+        </mesh>
+      );
+    case 'crown':
+      return (
+        <group position={[0, top, 0]}>
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <torusGeometry args={[0.7, 0.1, 12, 40]} />
+            {material}
+          </mesh>
+          {Array.from({ length: 5 }, (_, i) => (
+            <mesh key={i} position={[Math.cos((i / 5) * Math.PI * 2) * 0.7, 0.3, Math.sin((i / 5) * Math.PI * 2) * 0.7]}>
+              <coneGeometry args={[0.15, 0.5, 12]} />
+              {material}
+            </mesh>
+          ))}
+        </group>
+      );
+    case 'antenna':
+      return (
+        <group position={[0, top, 0]}>
+          <mesh position={[0, 0.5, 0]}>
+            <cylinderGeometry args={[0.04, 0.04, 1, 8]} />
+            {material}
+          </mesh>
+          <mesh position={[0, 1.1, 0]}>
+            <sphereGeometry args={[0.2, 16, 16]} />
+            {material}
+          </mesh>
+        </group>
+      );
+  }
+};
 
-      return {
-          x: x,  // X remains unchanged since the rotation is around the X-axis
-          y: newY, // New Y calculated from rotation
-          z: newZ,  // New Z calculated from rotation
-          type: (i % 3)  // Modulo operation to alternate shapes
-      };
+/**
+ * HeadIdenticon Component
+ *
+ * Renders the tinted head model, its accessory and the ring of primitives of a head spec. The model's own materials are
+ * replaced by one material per identicon, so the tint, metalness and roughness from the hash actually reach the meshes.
+ *
+ * @param {Object} props - The component props.
+ * @param {HeadSpec} props.spec - The head spec to render.
+ * @param {boolean} props.showAccessory - Whether the accessory is shown.
+ * @returns {JSX.Element} The rendered head identicon.
+ */
+const HeadIdenticon = ({ spec, showAccessory }: { spec: HeadSpec, showAccessory: boolean }) => {
+  const gltf = useLoader(GLTFLoader, HEAD_MODEL_URL);
+  const { head } = spec;
+
+  // Material shared by every mesh of the head model
+  const material = useMemo(
+    () => new MeshStandardMaterial({ color: head.tint, metalness: head.metalness, roughness: head.roughness }),
+    [head.tint, head.metalness, head.roughness]
+  );
+  useEffect(() => () => material.dispose(), [material]);
+
+  // A copy of the model, scaled, centered on the origin and wearing the identicon's material
+  const { model, top } = useMemo(() => {
+    const model = gltf.scene.clone();
+    model.scale.set(...head.scale);
+    model.traverse((object) => {
+      if (object instanceof Mesh) object.material = material;
     });
-
-    return {
-      color: `#${hslColor}`,
-      scale: new Vector3(scaleX, scaleY, scaleZ),
-      rotation: new Euler(rotX, rotY, rotZ),
-      cylinderSize: { radius: cylinderRadius, height: cylinderHeight },
-      primitives: primitivePositions
-    };
-  }, [seed]);
-
-  const head = useMemo(() => {
-    const scene = gltf.scene.clone();
-    scene.scale.copy(scale);
-    scene.rotation.copy(rotation);
-    const box = new Box3().setFromObject(scene);
-    const center = new Vector3();
-    box.getCenter(center);
-    scene.position.sub(center);
-    return scene;
-  }, [gltf, scale, rotation]);
-
-  useEffect(() => {
-    if (materialRef.current) {
-      materialRef.current.color.set(color);
-    }
-  }, [color]);
-
-  // Function to create geometry based on type
-  const createGeometry = (type: number, args: any[]) => {
-    switch (type) {
-      case 0: return new SphereGeometry(...args);
-      case 1: return new BoxGeometry(...args);
-      case 2: return new ConeGeometry(...args);
-      default: return new SphereGeometry(...args);
-    }
-  };
+    const box = new Box3().setFromObject(model);
+    const center = box.getCenter(new Vector3());
+    model.position.sub(center);
+    return { model, top: box.max.y - center.y };
+  }, [gltf, head.scale, material]);
 
   return (
     <>
-      <mesh>
-        <primitive object={head} />
-        <meshStandardMaterial ref={materialRef} attach="material" color={color} roughness={0.5} metalness={1} />
-      </mesh>
-
-      {primitives.map((pos, index) => {
-          const geometryArgs = pos.type === 0 ? [0.5, 16, 16] : pos.type === 1 ? [1, 1, 1] : [0.5, 1, 16];
-          const geometry = createGeometry(pos.type, geometryArgs);
-          return (
-            <mesh key={index} position={[pos.x, pos.y, pos.z]} rotation={[0, -Math.atan2(pos.y, pos.x), 0]}>
-              <primitive object={geometry} />
-              <meshStandardMaterial color="red" />
-            </mesh>
-          );
-      })}
+      {/* The head and its accessory share the head's pose */}
+      <group rotation={head.rotation}>
+        <primitive object={model} />
+        {showAccessory && <Accessory accessory={spec.accessory} color={spec.accessoryColor} top={top} />}
+      </group>
+
+      {/* The ring of primitives around the head */}
+      <group rotation={spec.ringTilt}>
+        {spec.primitives.map((primitive, i) => (
+          <mesh
+            key={i}
+            position={[Math.cos(primitive.angle) * primitive.radius, primitive.height, Math.sin(primitive.angle) * primitive.radius]}
+            rotation={primitive.rotation}
+            scale={primitive.size}
+          >
+            <PrimitiveGeometry type={primitive.type} />
+            <meshStandardMaterial color={primitive.color} metalness={0.3} roughness={0.5} />
+          </mesh>
+        ))}
+      </group>
     </>
   );
 };
 
-const Scene: React.FC<GeometricIdenticonProps> = ({ seed }) => {
-  const lightColor = useMemo(() => {
-    const hash = CryptoJS.SHA256(seed).toString();
-    const hue = parseInt(hash.substring(0, 2), 16);
-    const color = new Color(`hsl(${hue % 360}, 100%, 50%)`).getHexString();
-    return `#${color}`;
-  }, [seed]);
+/**
+ * Props for the head Scene component
+ *
+ * @interface SceneProps
+ * @property {string} seed - The seed string to render.
+ * @property {boolean} [showAccessory] - Whether the accessory is shown. Defaults to true.
+ * @property {function} [onError] - Receives the error when the server cannot provide the head spec in keyed mode, or null when a new request starts.
+ */
+interface SceneProps {
+  seed: string;
+  showAccessory?: boolean;
+  onError?: (error: Error | null) => void;
+}
+
+/**
+ * Scene Component
+ *
+ * Provides the head spec for a seed and renders it with its hash-colored key and fill lights. Must be used inside a
+ * Canvas and a Suspense boundary, as the head model is loaded on first use.
+ *
+ * @param {SceneProps} props - The component props.
+ * @returns {JSX.Element | null} The rendered scene, or nothing until the spec is available.
+ */
+const Scene: React.FC<SceneProps> = ({ seed, showAccessory = true, onError }) => {
+  const [spec = null] = useHeadSpecs([seed], onError);
+  if (!spec) return null;
+  const { color, intensity } = spec.lighting;
 
   return (
     <>
-      <ambientLight intensity={0.04} />
-      <directionalLight position={[0, 10, 5]} color={lightColor} intensity={1} />
-      <pointLight position={[0, 0, 10]} color={lightColor} intensity={5} />
-      <GeometricIdenticon seed={seed} />
+      <ambientLight intensity={0.4} />
+      <directionalLight position={[0, 10, 5]} color={color} intensity={intensity} />
+      <pointLight position={[0, 0, 10]} color={color} intensity={intensity / 2} decay={0} />
+      <HeadIdenticon spec={spec} showAccessory={showAccessory} />
     </>
   );
 };
@@ -0,0 +1,114 @@
+/**
+ * GeometricView.tsx
+ *
+ * This file defines the GeometricView component, the view of the "geometric" identicon style. It builds the identicon
+ * spec for the seed and renders its shapes live in a react-three-fiber canvas with Bloom and Chromatic Aberration, or as
+ * a static snapshot when WebGL is unavailable. The canvas renders on demand, and not at all while it is scrolled away
+ * or the tab is hidden.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import Image from 'next/image';
+import { Canvas } from '@react-three/fiber';
+import { EffectComposer, Bloom, ChromaticAberration } from '@react-three/postprocessing';
+import { Vector2 } from 'three';
+import GeometricIdenticon from './GeometricIdenticon';
+import FramedOrbitControls from './FramedOrbitControls';
+import { useIdenticonSpecs } from './useIdenticonSpecs';
+import { CAMERA_FOV, CAMERA_POSITION } from './identiconProjection';
+import { createIdenticonEnvironment, createIdenticonLights } from './identiconLighting';
+import { BLOOM_SETTINGS } from './effects';
+import { useIdenticonTheme } from './useIdenticonTheme';
+import { useWebGLAvailable } from './webgl';
+import { useIsVisible } from './useIsVisible';
+import { useIdenticonSnapshot } from './identiconSnapshot';
+import type { IdenticonViewProps } from './identiconStyles';
+
+/**
+ * GeometricView component
+ *
+ * Renders the geometric identicon of a seed, filling its container, and reports its spec through onSpecChange so the
+ * identicon can be downloaded. The only option is `shapes`, the number of shapes. The shapes and the strength of the
+ * effects follow the identicon theme, and the lights and environment follow the spec. Without effects, the shapes are drawn without Bloom and Chromatic Aberration.
+ *
+ * @param {IdenticonViewProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered view.
+ */
+const GeometricView: React.FC<IdenticonViewProps> = ({ seed, options, rotate, framing, effects, interactive, onSpecChange, onReady, onError }) => {
+  // Identicon spec describing every shape, rebuilt only when the seed, shape count or theme changes
+  const [spec = null] = useIdenticonSpecs([seed], options.shapes as number, onError);
+
+  // Strength of Bloom and Chromatic Aberration, set by the theme
+  const { effects: effectSettings } = useIdenticonTheme();
+
+  useEffect(() => {
+    onSpecChange?.(spec);
+    return () => onSpecChange?.(null);
+  }, [spec, onSpecChange]);
+
+  // The identicon can be captured from its spec, whether it is shown live or as a snapshot
+  useEffect(() => {
+    if (spec) onReady?.();
+  }, [spec, onReady]);
+
+  // Whether the live 3D view can be shown, or null until known
+  const webGLAvailable = useWebGLAvailable();
+
+  // The snapshot is only rendered while WebGL is unavailable or not known to work yet
+  const snapshot = useIdenticonSnapshot(webGLAvailable ? null : spec, 450, framing);
+
+  // The canvas renders on demand, and not at all while it is scrolled away or the tab is hidden
+  const viewRef = useRef<HTMLDivElement>(null);
+  const canvasVisible = useIsVisible(viewRef);
+
+  // Lights and environment map of the spec, rebuilt only when its light rig changes
+  const lighting = spec?.lighting;
+  const lights = useMemo(() => createIdenticonLights(lighting), [lighting]);
+  const environment = useMemo(() => lighting && createIdenticonEnvironment(lighting), [lighting]);
+  useEffect(() => () => environment?.dispose(), [environment]);
+
+  // One GeometricIdenticon per shape of the spec, re-generated only when the spec or rotation state changes
+  const identicons = useMemo(() =>
+    spec
+      ? spec.shapes.map((shape, i) => (
+          <GeometricIdenticon key={i} shape={shape} rotate={rotate} />
+        ))
+      : [],
+    [spec, rotate]
+  );
+
+  return (
+    <div ref={viewRef} className="w-full h-full flex items-center justify-center">
+      {/* The static snapshot stands in until WebGL is known to work, and for good when it does not */}
+      {webGLAvailable ? (
+        <Canvas
+          frameloop={canvasVisible ? 'demand' : 'never'}
+          gl={{ preserveDrawingBuffer: true }}
+          camera={{ position: CAMERA_POSITION, fov: CAMERA_FOV }}
+          // Without tone mapping, like the effect composer and the exporters, so switching effects off keeps the colors
+          flat
+        >
+          {lights.map((light, i) => <primitive key={i} object={light} />)}
+          {environment && <primitive attach="environment" object={environment} />}
+          <> {identicons} </>
+
+          {/* Adding postprocessing effects for enhanced visual quality */}
+          {effects && (
+            <EffectComposer>
+              <Bloom {...BLOOM_SETTINGS} {...effectSettings.bloom} />
+              <ChromaticAberration offset={new Vector2(...effectSettings.chromaticAberration)} radialModulation={false} modulationOffset={0.0} />
+            </EffectComposer>
+          )}
+
+          {/* Adding orbit controls to navigate the 3D scene, with the camera fitted to the shapes */}
+          <FramedOrbitControls spec={spec} framing={framing} interactive={interactive} />
+        </Canvas>
+      ) : (
+        // Snapshots are data URLs, which the image optimizer cannot improve on
+        spec && snapshot && <Image src={snapshot} alt={`Identicon of ${spec.seed}`} width={450} height={450} unoptimized className="h-full w-auto" />
+      )}
+    </div>
+  );
+};
+
+export default GeometricView;
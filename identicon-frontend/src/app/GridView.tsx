@@ -0,0 +1,79 @@
+/**
+ * GridView.tsx
+ *
+ * This file defines the GridView component, the view of the "grid" identicon style. It draws the classic 2D mirrored
+ * grid identicon of a seed on a 2D canvas, which needs no WebGL, and offers the grid as SVG and PNG downloads drawn
+ * with the same framework-free grid renderers as the image route.
+ */
+
+import { useEffect, useRef } from 'react';
+import { drawGridIdenticon, renderGridIdenticonSvg } from './gridIdenticon';
+import { useGridIdenticons } from './useIdenticonSpecs';
+import { downloadBlob } from './utils';
+import type { IdenticonViewProps } from './identiconStyles';
+
+// Width and height of the downloaded images in pixels
+const DOWNLOAD_SIZE = 512;
+
+/**
+ * GridView component
+ *
+ * Renders the grid identicon of a seed, filling its container, with buttons to download it as SVG or PNG. The options
+ * are `grid`, the number of cells along each side, and `padding`, the margin around the grid in cells. The grid is
+ * static and flat, so rotation, framing, effects and interactivity do not apply. Its color follows the theme's palette.
+ *
+ * @param {IdenticonViewProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered view.
+ */
+const GridView: React.FC<IdenticonViewProps> = ({ seed, options, onReady, onError }) => {
+  const gridSize = options.grid as number;
+  const padding = options.padding as number;
+
+  // Grid identicon in the theme's palette, rebuilt only when the seed, grid size or the theme's version or palette
+  // changes, or fetched from the server in keyed mode
+  const [grid = null] = useGridIdenticons([seed], gridSize, onError);
+
+  // The canvas is drawn at the device's pixel density, so the cells stay crisp
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !grid) return;
+    canvas.width = canvas.height = Math.round(canvas.clientWidth * window.devicePixelRatio);
+    drawGridIdenticon(context, grid, { padding });
+    onReady?.();
+  }, [grid, padding, onReady]);
+
+  // Downloads the grid as an SVG document
+  const downloadSvg = () => {
+    if (!grid) return;
+    const svg = renderGridIdenticonSvg(grid, { size: DOWNLOAD_SIZE, padding });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `identicon-${seed}-grid.svg`);
+  };
+
+  // Downloads the grid as a PNG image, drawn on an offscreen canvas
+  const downloadPng = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = DOWNLOAD_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context || !grid) return;
+    drawGridIdenticon(context, grid, { padding });
+    canvas.toBlob((blob) => blob && downloadBlob(blob, `identicon-${seed}-grid.png`), 'image/png');
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center">
+      <canvas ref={canvasRef} className="w-80 h-80" />
+      <div className="mt-2">
+        <button onClick={downloadSvg} disabled={!grid} className="px-4 py-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700">
+          Download SVG
+        </button>
+        <button onClick={downloadPng} disabled={!grid} className="px-4 py-2 ml-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700">
+          Download PNG
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GridView;
@@ -0,0 +1,80 @@
+/**
+ * HeadView.tsx
+ *
+ * This file defines the HeadView component, the view of the "head" identicon style. It renders the head scene of
+ * GeometricIdenticonNew, a hash-tinted human head surrounded by a ring of hash-driven primitives and lit in the seed's
+ * color, in a react-three-fiber canvas. The head model is loaded on first use, and the canvas renders on demand, and
+ * not at all while it is scrolled away or the tab is hidden.
+ */
+
+import { Suspense, useEffect, useRef } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import HeadScene from './GeometricIdenticonNew';
+import { CAMERA_FOV } from './identiconProjection';
+import { useWebGLAvailable } from './webgl';
+import { useIsVisible } from './useIsVisible';
+import type { IdenticonViewProps } from './identiconStyles';
+import type { Vec3 } from './identiconSpec';
+
+// The head faces the camera, which stands far enough back to see the whole ring of primitives
+const HEAD_CAMERA_POSITION: Vec3 = [0, 0, 19];
+
+/**
+ * Calls onReady once mounted. Placed next to the head scene inside its Suspense boundary, it mounts once the head model
+ * has loaded and the scene is shown.
+ *
+ * @param {Object} props - The component props.
+ * @param {function} [props.onReady] - Called once mounted.
+ * @returns {null} Nothing is rendered.
+ */
+const ReadySignal = ({ onReady }: { onReady?: () => void }) => {
+  useEffect(() => {
+    onReady?.();
+  }, [onReady]);
+  return null;
+};
+
+/**
+ * HeadView component
+ *
+ * Renders the head identicon of a seed, filling its container. While rotation is on, the camera slowly turns around the
+ * head. The only option is `accessories`, which shows or hides the accessory. The style has no post-processing effects.
+ * Without WebGL a short notice is shown instead, as the style has no static rendering.
+ *
+ * @param {IdenticonViewProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered view.
+ */
+const HeadView: React.FC<IdenticonViewProps> = ({ seed, options, rotate, interactive, onReady, onError }) => {
+  // Whether the live 3D view can be shown, or null until known
+  const webGLAvailable = useWebGLAvailable();
+
+  // The canvas renders on demand, and not at all while it is scrolled away or the tab is hidden
+  const viewRef = useRef<HTMLDivElement>(null);
+  const canvasVisible = useIsVisible(viewRef);
+
+  return (
+    <div ref={viewRef} className="w-full h-full flex items-center justify-center">
+      {webGLAvailable ? (
+        <Canvas
+          frameloop={canvasVisible ? 'demand' : 'never'}
+          gl={{ preserveDrawingBuffer: true }}
+          camera={{ position: HEAD_CAMERA_POSITION, fov: CAMERA_FOV }}
+        >
+          {/* The head model streams in, so the scene appears once it is loaded */}
+          <Suspense fallback={null}>
+            <HeadScene seed={seed} showAccessory={options.accessories as boolean} onError={onError} />
+            <ReadySignal key={seed} onReady={onReady} />
+          </Suspense>
+
+          {/* Orbit controls turn the camera around the head, automatically while rotation is on */}
+          <OrbitControls autoRotate={rotate} enableRotate={interactive} enableZoom={interactive} enablePan={interactive} />
+        </Canvas>
+      ) : (
+        webGLAvailable === false && <p className="text-lg">The head style needs WebGL, which this browser does not provide.</p>
+      )}
+    </div>
+  );
+};
+
+export default HeadView;
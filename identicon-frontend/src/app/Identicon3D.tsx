@@ -0,0 +1,194 @@
+/**
+ * Identicon3D.tsx
+ *
+ * This file defines the Identicon3D component, the one component pages and other apps use to show an identicon. It
+ * wraps the view of any registered style, with its canvas, lighting, post-processing and orbit controls, behind a small
+ * props API with sensible defaults, and exposes an imperative handle to capture the identicon as an image:
+ *
+ *   <Identicon3D seed="Jane" size={128} shapes={12} effects={false} ref={identiconRef} onReady={...} />
+ *   const blob = await identiconRef.current?.toBlob({ size: 512 });
+ */
+
+"use client";
+
+import { forwardRef, useCallback, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { IdenticonSpec } from './identiconSpec';
+import {
+  DEFAULT_STYLE_ID,
+  IDENTICON_STYLES,
+  IdenticonStyleId,
+  resolveStyleOptions,
+  StyleOptionValues,
+} from './identiconStyles';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, renderIdenticonCanvas } from './exportRenderer';
+import { DEFAULT_FRAMING_MODE, FramingMode } from './framing';
+import { IdenticonTheme } from './identiconTheme';
+import { IdenticonThemeContext, useIdenticonTheme } from './useIdenticonTheme';
+
+/**
+ * Props for the Identicon3D component
+ *
+ * @interface Identicon3DProps
+ * @property {string} seed - The seed string, typically a username.
+ * @property {number | string} [size] - Width and height of the identicon, in pixels or as a CSS length such as "100%". Defaults to 256.
+ * @property {number} [shapes] - Number of shapes of the geometric style. Overrides the `shapes` option, which defaults to the theme's shape count.
+ * @property {boolean} [effects] - Whether Bloom and Chromatic Aberration are applied, for styles that have them. Defaults to true.
+ * @property {boolean} [interactive] - Whether the user can orbit and zoom the identicon. Defaults to true.
+ * @property {boolean} [rotate] - Whether the identicon moves. Defaults to false.
+ * @property {IdenticonStyleId} [style] - The identicon style. Defaults to DEFAULT_STYLE_ID.
+ * @property {Record<string, number | boolean>} [options] - Option values of the style. Missing and invalid values fall back to the theme's settings, such as its shape count, and to the style's defaults.
+ * @property {FramingMode} [framing] - How the camera is fitted to the identicon. Defaults to DEFAULT_FRAMING_MODE.
+ * @property {IdenticonTheme} [theme] - The theme of the identicon. Defaults to the theme of the nearest IdenticonThemeContext provider, or DEFAULT_THEME.
+ * @property {function} [onReady] - Called whenever the identicon of a new seed has been drawn and can be captured.
+ * @property {function} [onSpecChange] - Receives the identicon spec shown, for styles described by one, or null.
+ * @property {function} [onError] - Receives the error keeping the identicon from being drawn, such as a seed that is not an identicon ID in keyed mode, or null when a new one is loaded.
+ * @property {string} [className] - Class names applied to the element holding the identicon.
+ */
+export interface Identicon3DProps {
+  seed: string;
+  size?: number | string;
+  shapes?: number;
+  effects?: boolean;
+  interactive?: boolean;
+  rotate?: boolean;
+  style?: IdenticonStyleId;
+  options?: Record<string, number | boolean>;
+  framing?: FramingMode;
+  theme?: IdenticonTheme;
+  onReady?: () => void;
+  onSpecChange?: (spec: IdenticonSpec | null) => void;
+  onError?: (error: Error | null) => void;
+  className?: string;
+}
+
+/**
+ * The imperative handle of an Identicon3D, received through its ref.
+ *
+ * @interface Identicon3DHandle
+ * @property {function} toBlob - Captures the identicon as an image. Identicons described by a spec are rendered offscreen with the given export options, which default to DEFAULT_EXPORT_OPTIONS and the component's effects, theme and framing; other styles are captured from their canvas as shown, honoring only the format and quality. Rejects when nothing has been drawn yet.
+ * @property {IdenticonSpec | null} spec - The identicon spec shown, for styles described by one, or null.
+ */
+export interface Identicon3DHandle {
+  toBlob: (options?: Partial<ExportOptions>) => Promise<Blob>;
+  spec: IdenticonSpec | null;
+}
+
+/**
+ * Encodes a canvas as an image.
+ *
+ * @param {HTMLCanvasElement} canvas - The canvas to encode.
+ * @param {ExportOptions} options - The export options; only the format and quality are used.
+ * @returns {Promise<Blob>} The encoded image.
+ */
+const canvasToBlob = (canvas: HTMLCanvasElement, { format, quality }: ExportOptions) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(
+    (blob) => (blob ? resolve(blob) : reject(new Error(`Failed to encode the identicon as ${format}`))),
+    `image/${format}`,
+    quality,
+  ));
+
+/**
+ * Identicon3D component
+ *
+ * Renders the identicon of a seed in the chosen style, in an element of the given size. The view of the style fills
+ * the element, so the identicon can also be sized with `size="100%"` and the parent's dimensions.
+ *
+ * @param {Identicon3DProps} props - The properties for the component.
+ * @param {React.Ref<Identicon3DHandle>} ref - Receives the handle used to capture the identicon.
+ * @returns {JSX.Element} The rendered identicon.
+ */
+const Identicon3D = forwardRef<Identicon3DHandle, Identicon3DProps>(({
+  seed,
+  size = 256,
+  shapes,
+  effects = true,
+  interactive = true,
+  rotate = false,
+  style = DEFAULT_STYLE_ID,
+  options,
+  framing = DEFAULT_FRAMING_MODE,
+  theme: themeProp,
+  onReady,
+  onSpecChange,
+  onError,
+  className,
+}, ref) => {
+  const { View } = IDENTICON_STYLES[style];
+
+  // The given theme, or else the one of the page
+  const pageTheme = useIdenticonTheme();
+  const theme = themeProp ?? pageTheme;
+
+  // Option values of the style, complete with defaults and the theme's settings, rebuilt only when the given values change
+  const optionsKey = JSON.stringify({ ...options, ...(shapes !== undefined && { shapes }) });
+  const styleOptions: StyleOptionValues = useMemo(
+    () => resolveStyleOptions(IDENTICON_STYLES[style], JSON.parse(optionsKey), theme),
+    [style, optionsKey, theme]
+  );
+
+  // Spec reported by the view, kept for captures and passed on to the caller
+  const [spec, setSpec] = useState<IdenticonSpec | null>(null);
+  const onSpecChangeRef = useRef(onSpecChange);
+  onSpecChangeRef.current = onSpecChange;
+  const handleSpecChange = useCallback((next: IdenticonSpec | null) => {
+    setSpec(next);
+    onSpecChangeRef.current?.(next);
+  }, []);
+
+  // The latest onReady, so the view is not re-notified when the caller passes a new function
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  const handleReady = useCallback(() => onReadyRef.current?.(), []);
+
+  // The latest onError, for the same reason
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const handleError = useCallback((error: Error | null) => onErrorRef.current?.(error), []);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useImperativeHandle(ref, () => ({
+    spec,
+    toBlob: async (captureOptions = {}) => {
+      const exportOptions: ExportOptions = {
+        ...DEFAULT_EXPORT_OPTIONS,
+        effects,
+        framing,
+        chromaticAberrationOffset: theme.effects.chromaticAberration,
+        bloom: theme.effects.bloom,
+        ...captureOptions,
+      };
+      if (spec) {
+        return canvasToBlob(await renderIdenticonCanvas(spec, exportOptions), exportOptions);
+      }
+
+      const canvas = containerRef.current?.querySelector('canvas');
+      if (!canvas) {
+        throw new Error(`The identicon of "${seed}" has not been drawn yet`);
+      }
+      return canvasToBlob(canvas, exportOptions);
+    },
+  }), [spec, seed, effects, framing, theme]);
+
+  return (
+    <div ref={containerRef} className={className} style={{ width: size, height: size }}>
+      <IdenticonThemeContext.Provider value={theme}>
+        <View
+          seed={seed}
+          options={styleOptions}
+          rotate={rotate}
+          framing={framing}
+          effects={effects}
+          interactive={interactive}
+          onSpecChange={handleSpecChange}
+          onReady={handleReady}
+          onError={handleError}
+        />
+      </IdenticonThemeContext.Provider>
+    </div>
+  );
+});
+
+Identicon3D.displayName = 'Identicon3D';
+
+export default Identicon3D;
@@ -0,0 +1,74 @@
+/**
+ * IdenticonAvatar.tsx
+ *
+ * This file defines the IdenticonAvatar component, which shows an identicon in avatar lists. It starts as a cached
+ * snapshot and only upgrades to a live, interactive identicon drawn by the shared renderer while it is hovered,
+ * focused or featured. Without WebGL it keeps showing the snapshot.
+ */
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { IdenticonSpec } from './identiconSpec';
+import { useIdenticonSnapshot } from './identiconSnapshot';
+import { SharedIdenticonRenderer } from './sharedIdenticonRenderer';
+import SharedIdenticon from './SharedIdenticon';
+
+/**
+ * Props for the IdenticonAvatar component
+ *
+ * @interface IdenticonAvatarProps
+ * @property {IdenticonSpec | null} spec - The spec of the identicon, or null while it is loading.
+ * @property {SharedIdenticonRenderer | null} renderer - The shared renderer used once the avatar is live, or null when WebGL is unavailable.
+ * @property {boolean} rotate - Whether the shapes of the live identicon should rotate.
+ * @property {boolean} [featured] - Whether the avatar is in a featured slot, where it is always live.
+ * @property {string} label - Accessible name of the avatar, such as the username.
+ * @property {number} [snapshotSize] - Width and height of the snapshot in pixels. Defaults to 128.
+ */
+interface IdenticonAvatarProps {
+  spec: IdenticonSpec | null;
+  renderer: SharedIdenticonRenderer | null;
+  rotate: boolean;
+  featured?: boolean;
+  label: string;
+  snapshotSize?: number;
+}
+
+/**
+ * IdenticonAvatar component
+ *
+ * Renders the snapshot of an identicon, or the live identicon while the avatar is hovered, focused or featured.
+ * The avatar is focusable, so keyboard users can bring it to life too.
+ *
+ * @param {IdenticonAvatarProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered avatar.
+ */
+const IdenticonAvatar: React.FC<IdenticonAvatarProps> = ({ spec, renderer, rotate, featured = false, label, snapshotSize = 128 }) => {
+  // State to track whether the avatar is hovered or focused
+  const [active, setActive] = useState(false);
+
+  const live = renderer !== null && (active || featured);
+
+  const snapshot = useIdenticonSnapshot(spec, snapshotSize);
+
+  return (
+    <div
+      className="w-full h-full flex items-center justify-center"
+      tabIndex={0}
+      role="img"
+      aria-label={label}
+      onMouseEnter={() => setActive(true)}
+      onMouseLeave={() => setActive(false)}
+      onFocus={() => setActive(true)}
+      onBlur={() => setActive(false)}
+    >
+      {live ? (
+        <SharedIdenticon renderer={renderer} spec={spec} rotate={rotate} />
+      ) : (
+        // Snapshots are data URLs, which the image optimizer cannot improve on
+        snapshot && <Image src={snapshot} alt="" width={snapshotSize} height={snapshotSize} unoptimized className="h-full w-auto" />
+      )}
+    </div>
+  );
+};
+
+export default IdenticonAvatar;
@@ -0,0 +1,44 @@
+/**
+ * IdenticonEmbed.tsx
+ *
+ * This file contains the identicon shown by the embed page: the bare identicon of a seed, filling the page, without
+ * the generator's sidebar and controls, so it can be framed by other sites.
+ */
+
+"use client";
+
+import Identicon3D from './Identicon3D';
+import { readIdenticonProps } from './identiconElement';
+
+/**
+ * Props for the IdenticonEmbed component
+ *
+ * @interface IdenticonEmbedProps
+ * @property {string} seed - The seed to show.
+ * @property {string} search - The query string of the embed, holding the view with the same names as the attributes of the `<identicon-3d>` element, except for the style, which is named `style` as in permalinks.
+ */
+interface IdenticonEmbedProps {
+  seed: string;
+  search: string;
+}
+
+/**
+ * IdenticonEmbed Component
+ *
+ * @component
+ * @param {IdenticonEmbedProps} props - The properties for the component.
+ * @returns {JSX.Element} The identicon, as large as the page allows.
+ */
+const IdenticonEmbed: React.FC<IdenticonEmbedProps> = ({ seed, search }) => {
+  const params = new URLSearchParams(search);
+  // Embeds share the query string of permalinks, which name the style `style` rather than `variant`
+  const props = readIdenticonProps((name) => params.get(name === 'variant' ? 'style' : name));
+
+  return (
+    <main className="w-screen h-screen flex items-center justify-center overflow-hidden">
+      <Identicon3D {...props} seed={seed} size="min(100vw, 100vh)" />
+    </main>
+  );
+};
+
+export default IdenticonEmbed;
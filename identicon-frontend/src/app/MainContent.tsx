@@ -2,21 +2,33 @@
  * MainContext.tsx
  * 
  * This file defines the MainContent component, which serves as the primary interface for the 3D Geometric Identicon Generator application. 
- * The component allows users to input a string, generate a unique 3D identicon based on the SHA-256 hash of the string, control the rotation of the identicons, 
- * select the size of the identicons, and download the generated identicons as PNG files.
+ * The component allows users to input a string, generate a unique identicon in the chosen style based on the SHA-256 hash of the string, control the rotation of the identicons, 
+ * select the size, format and quality of the identicons, and download the generated identicons as PNG, JPEG or WebP files
+ * or as animated GIF and WebM loops and GLB, STL or OBJ models.
  * 
  * Created by Alif Jakir on 7/11/24
  * Updated by Alif Jakir on 7/12/24
  * Contact: alif@halcyox.com
  */
 
-import { Canvas } from '@react-three/fiber';
-import { EffectComposer, Bloom, ChromaticAberration } from '@react-three/postprocessing';
-import { OrbitControls } from '@react-three/drei';
-import GeometricIdenticon from './GeometricIdenticon';
-import { useMemo, useState, ChangeEvent } from 'react';
-import { generateHash, captureIdenticon } from './utils';
-import { Vector2 } from 'three';
+import { useState, ChangeEvent } from 'react';
+import { captureIdenticon, captureIdenticonAnimation, captureIdenticonModel } from './utils';
+import { IdenticonSpec } from './identiconSpec';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from './exportRenderer';
+import ExportSettings from './ExportSettings';
+import { AnimationOptions, DEFAULT_ANIMATION_OPTIONS } from './animationExport';
+import AnimationSettings from './AnimationSettings';
+import { MODEL_FORMATS, ModelFormat } from './modelExport';
+import { IdenticonRegistry, MAIN_IDENTICON_ID, useIdenticonRef } from './identiconRegistry';
+import Link from 'next/link';
+import { DEFAULT_FRAMING_MODE, FRAMING_MODES, FramingMode } from './framing';
+import { useIdenticonStyle } from './useIdenticonStyle';
+import StyleSettings from './StyleSettings';
+import Identicon3D from './Identicon3D';
+import { useSearchParam } from './useSearchParam';
+import { buildPermalink, parseBooleanParam, parseFramingParam, parseSizeParam } from './permalink';
+import { IdenticonTheme } from './identiconTheme';
+import ThemeDesigner from './ThemeDesigner';
 
 /**
  * Prop types for MainContent component.
@@ -28,8 +40,10 @@ import { Vector2 } from 'three';
  * @property {boolean} rotate - Boolean flag indicating whether the identicons should be in a rotating state.
  * @property {function} setRotate - Function to toggle the rotation state of the identicons.
  * @property {string|null} seed - The current seed value used for generating the identicons. This is typically a hashed version of the input string.
- * @property {React.MutableRefObject<(HTMLDivElement | null)[]>} canvasRefs - A reference object to an array of canvas container elements, allowing the component to interact with the canvases directly.
+ * @property {React.MutableRefObject<IdenticonRegistry>} identiconRegistry - A reference to the registry of identicons on the page, in which the main identicon registers its canvas container and spec.
  * @property {function} setIsTyping - Function to update the typing state, used to control UI behavior when the user is typing in the input field.
+ * @property {IdenticonTheme} theme - The identicon theme applied to every identicon on the page, edited in the designer.
+ * @property {function} setTheme - Function to change the identicon theme.
  */
 interface MainContentProps {
   inputString: string;
@@ -38,20 +52,21 @@ interface MainContentProps {
   rotate: boolean;
   setRotate: (rotate: boolean) => void;
   seed: string | null;
-  canvasRefs: React.MutableRefObject<(HTMLDivElement | null)[]>;
+  identiconRegistry: React.MutableRefObject<IdenticonRegistry>;
   setIsTyping: (isTyping: boolean) => void;
+  theme: IdenticonTheme;
+  setTheme: (theme: IdenticonTheme) => void;
 }
 
-// Constant defining the number of geometric shapes to generate for identicons
-const amountOfShapes = 10;
-
 /**
  * MainContent component.
  * 
  * The MainContent component is responsible for rendering the user interface of the 3D Geometric Identicon Generator application.
  * It provides an input field for the user to enter a string, which is used to generate unique identicons based on a SHA-256 hash.
- * The component allows users to control the rotation of the identicons, select their size, and download them as PNG files.
- * Additionally, it renders a 3D scene with postprocessing effects using react-three-fiber.
+ * The component allows users to pick the identicon style and its options, control the rotation of the identicons, choose the export settings, download them as PNG, JPEG or WebP files, and copy a permalink restoring the whole view.
+ * The identicon itself is rendered by the Identicon3D component in the chosen style, with the post-processing effects switched on or off like the download.
+ * In keyed mode, identicons that the server does not serve, such as those of typed names, are replaced by a notice, and cannot be linked or downloaded.
+ * The theme designer changes the look of every identicon on the page, and downloads are drawn with the same theme.
  * 
  * @component
  * @param {MainContentProps} props - The properties passed to the component.
@@ -64,35 +79,58 @@ const MainContent: React.FC<MainContentProps> = ({
   rotate, 
   setRotate, 
   seed, 
-  canvasRefs, 
-  setIsTyping
+  identiconRegistry, 
+  setIsTyping,
+  theme,
+  setTheme
 }) => {
-  // State to track the selected size for the identicon download
-  const [selectedSize, setSelectedSize] = useState(256);
-
-  /**
-   * Memoized identicons array.
-   * 
-   * This useMemo hook generates an array of GeometricIdenticon components based on the current seed and rotation state.
-   * The array is re-generated only when the seed or rotation state changes, optimizing performance.
-   * 
-   * @returns {JSX.Element[]} Array of GeometricIdenticon components.
-   */
-  const identicons = useMemo(() => 
-    seed 
-      ? Array.from({ length: amountOfShapes }, (_, i) => (
-          <GeometricIdenticon key={i} seed={generateHash(seed, i)} rotate={rotate} />
-        )) 
-      : [], 
-    [seed, rotate]
-  );
+  // State to track the selected size, format and other options for the identicon download
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  // State to track the options of the animation download, and whether an animation is being recorded
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+  const [recording, setRecording] = useState(false);
+
+  // State to track the format of the 3D model download
+  const [modelFormat, setModelFormat] = useState<ModelFormat>('glb');
+
+  // State to track how the camera is fitted to the shapes, in the live view and in downloads
+  const [framing, setFraming] = useState<FramingMode>(DEFAULT_FRAMING_MODE);
+
+  // The framing and the size and effects of the download are recorded in the page URL, like the style
+  useSearchParam('framing', framing, setFraming, parseFramingParam);
+  useSearchParam('size', exportOptions.size, (size) => setExportOptions((options) => ({ ...options, size })), parseSizeParam);
+  useSearchParam('effects', exportOptions.effects, (effects) => setExportOptions((options) => ({ ...options, effects })), parseBooleanParam);
+
+  // State to track whether the permalink was just copied, to confirm it on the button
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Error keeping the identicon from loading. In keyed mode the server only serves identicon IDs it issued, so names
+  // typed here cannot be shown, linked or downloaded
+  const [loadError, setLoadError] = useState<Error | null>(null);
+
+  // The identicon style and its options, recorded in the page URL
+  const styleState = useIdenticonStyle();
+  const { style, overrides: styleOverrides } = styleState;
+
+  // The effects of the theme, with which downloads are drawn like the live view
+  const themeEffects = {
+    chromaticAberrationOffset: theme.effects.chromaticAberration,
+    bloom: theme.effects.bloom,
+  };
+
+  // Identicon spec reported by the style's view, or null while loading and for styles without specs, which cannot be downloaded
+  const [spec, setSpec] = useState<IdenticonSpec | null>(null);
+
+  // Registers the main identicon's container, spec and framing for downloads
+  const mainIdenticonRef = useIdenticonRef(identiconRegistry, MAIN_IDENTICON_ID, spec, framing);
 
   return (
     <div className="w-33/4 p-4 text-center mt-12">
       <h1 className="text-4xl mb-4">3D Geometric Identicon Generator</h1>
       <p className="text-lg mb-4">The identicons below are generated using the SHA-256 hashing algorithm.</p>
       <p className="text-lg mb-4">I am using the <a href="https://github.com/pmndrs/react-three-fiber" className="text-blue-500">react-three-fiber</a> library.</p>
-      <p className="text-lg mb-4"><a href="https://github.com/Caerii/Identicon-Generator-Site" className="text-blue-500">My Github :0</a> | <a href="https://www.alifjakir.com" className="text-blue-500">My Unfinished Website</a></p>
+      <p className="text-lg mb-4"><a href="https://github.com/Caerii/Identicon-Generator-Site" className="text-blue-500">My Github :0</a> | <a href="https://www.alifjakir.com" className="text-blue-500">My Unfinished Website</a> | <Link href="/batch" className="text-blue-500">Batch Generation</Link></p>
 
       {/* Input field for entering the string to generate identicons */}
       <input
@@ -112,40 +150,130 @@ const MainContent: React.FC<MainContentProps> = ({
         {rotate ? "Stop Rotation" : "Start Rotation"}
       </button>
 
-      {/* Dropdown menu to select the identicon size */}
+      {/* Controls for the identicon style and its options */}
+      <StyleSettings
+        state={styleState}
+        selectClassName="px-4 py-2 ml-2 text-lg border rounded-md"
+        labelClassName="ml-2 text-lg"
+      />
+
+      {/* Dropdown menu to select the camera framing */}
       <select
-        value={selectedSize}
-        onChange={(e) => setSelectedSize(parseInt(e.target.value))}
+        value={framing}
+        onChange={(e) => setFraming(e.target.value as FramingMode)}
         className="px-4 py-2 ml-2 text-lg border rounded-md"
       >
-        {[16, 32, 64, 128, 256, 512].map(size => (
-          <option key={size} value={size}>{size}x{size}</option>
+        {FRAMING_MODES.map((mode) => (
+          <option key={mode} value={mode}>{mode.charAt(0).toUpperCase() + mode.slice(1)} framing</option>
         ))}
       </select>
 
+      {/* Controls for the size, format, quality, background and effects of the download */}
+      <ExportSettings
+        options={exportOptions}
+        onChange={setExportOptions}
+        selectClassName="px-4 py-2 ml-2 text-lg border rounded-md"
+        labelClassName="ml-2 text-lg"
+      />
+
       {/* Button to download the identicon */}
       <button 
-        onClick={() => captureIdenticon(canvasRefs.current.length - 1, selectedSize, canvasRefs)} 
+        onClick={() => captureIdenticon(MAIN_IDENTICON_ID, { ...exportOptions, ...themeEffects }, identiconRegistry)} 
+        disabled={!spec}
         className="px-4 py-2 ml-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700"
       >
         Download Identicon
       </button>
 
-      {/* Container for the 3D canvas */}
-      <div className="canvas-container mx-auto mt-8 p-4 border-2 border-gray-300 rounded-lg" ref={el => { canvasRefs.current[canvasRefs.current.length] = el; }} >
-        <Canvas gl={{ preserveDrawingBuffer: true }} camera={{ position: [5, 5, 5], fov: 35 }}>
-          {/* Adding postprocessing effects for enhanced visual quality */}
-          <EffectComposer>
-            <Bloom luminanceThreshold={0.3} luminanceSmoothing={0.75} height={300} />
-            <ChromaticAberration offset={new Vector2(0.005, 0.0015)} radialModulation={false} modulationOffset={0.0} />
-            <ambientLight intensity={3.5} />
-            <pointLight position={[10, 10, 10]} />
-            <> {identicons} </>
-          </EffectComposer>
-
-          {/* Adding orbit controls to navigate the 3D scene */}
-          <OrbitControls />
-        </Canvas>
+      {/* Button to copy the permalink of the identicon, whose query string holds the whole view */}
+      <button 
+        onClick={async () => {
+          await navigator.clipboard.writeText(buildPermalink(window.location.origin, seed as string, window.location.search));
+          setLinkCopied(true);
+          setTimeout(() => setLinkCopied(false), 2000);
+        }} 
+        disabled={!seed || loadError !== null}
+        className="px-4 py-2 ml-2 text-lg bg-blue-500 text-white rounded-md hover:bg-blue-700"
+      >
+        {linkCopied ? "Link Copied!" : "Copy Link"}
+      </button>
+
+      {/* Controls for the format, motion, size and timing of the animation download */}
+      <div className="mt-2">
+        <AnimationSettings
+          options={animationOptions}
+          onChange={setAnimationOptions}
+          selectClassName="px-4 py-2 ml-2 text-lg border rounded-md"
+          labelClassName="ml-2 text-lg"
+        />
+
+        {/* Button to record and download the animation */}
+        <button 
+          onClick={async () => {
+            setRecording(true);
+            await captureIdenticonAnimation(MAIN_IDENTICON_ID, { ...animationOptions, ...themeEffects }, identiconRegistry);
+            setRecording(false);
+          }} 
+          disabled={!spec || recording}
+          className="px-4 py-2 ml-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700"
+        >
+          {recording ? "Recording..." : "Download Animation"}
+        </button>
+      </div>
+
+      {/* Dropdown menu and button to download the identicon as a 3D model */}
+      <div className="mt-2">
+        <select
+          value={modelFormat}
+          onChange={(e) => setModelFormat(e.target.value as ModelFormat)}
+          className="px-4 py-2 ml-2 text-lg border rounded-md"
+        >
+          {MODEL_FORMATS.map((format) => (
+            <option key={format} value={format}>{format.toUpperCase()}</option>
+          ))}
+        </select>
+        <button 
+          onClick={() => captureIdenticonModel(MAIN_IDENTICON_ID, modelFormat, identiconRegistry)} 
+          disabled={!spec}
+          className="px-4 py-2 ml-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700"
+        >
+          Download 3D Model
+        </button>
+      </div>
+
+      {/* Designer panel for the theme of every identicon on the page */}
+      <details className="mt-2">
+        <summary className="text-lg cursor-pointer">Theme designer: {theme.name}</summary>
+        <ThemeDesigner
+          theme={theme}
+          onChange={setTheme}
+          selectClassName="px-4 py-2 ml-2 text-lg border rounded-md"
+          labelClassName="ml-2 text-lg"
+        />
+      </details>
+
+      {/* Notice shown instead of the identicon when it cannot be loaded, as for typed names in keyed mode */}
+      {loadError && (
+        <p className="mt-4 text-lg text-red-500">
+          The identicon of &quot;{seed}&quot; is not available. Identicons are keyed on this site, so only those of known users and their links can be shown.
+        </p>
+      )}
+
+      {/* Container for the identicon, drawn in the chosen style with the effects of the download */}
+      <div className="canvas-container mx-auto mt-8 p-4 border-2 border-gray-300 rounded-lg" ref={mainIdenticonRef} >
+        {seed && (
+          <Identicon3D
+            seed={seed}
+            size="100%"
+            style={style.id}
+            options={styleOverrides}
+            effects={exportOptions.effects}
+            rotate={rotate}
+            framing={framing}
+            onSpecChange={setSpec}
+            onError={setLoadError}
+          />
+        )}
       </div>
     </div>
   );
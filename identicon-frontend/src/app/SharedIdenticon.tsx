@@ -0,0 +1,87 @@
+/**
+ * SharedIdenticon.tsx
+ *
+ * This file defines the SharedIdenticon component, which shows an identicon drawn by a shared renderer instead of its
+ * own WebGL canvas, and the useSharedIdenticonRenderer hook, which creates that renderer for a list of identicons.
+ * The Sidebar uses them so any number of forum posts can show an identicon with a single WebGL context.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { IdenticonSpec } from './identiconSpec';
+import { createSharedIdenticonRenderer, SharedIdenticonRenderer, SharedIdenticonTile } from './sharedIdenticonRenderer';
+import { isWebGLAvailable } from './webgl';
+import { BloomLook, DEFAULT_EFFECT_SETTINGS } from './effects';
+
+/**
+ * Creates a shared identicon renderer for the lifetime of the calling component.
+ *
+ * The renderer is created after mounting, as it needs a browser, so it is null during the first render. It stays null
+ * when WebGL is unavailable.
+ *
+ * @param {[number, number]} chromaticAberrationOffset - Offset of the chromatic aberration applied to every identicon.
+ * @param {BloomLook} [bloom] - Threshold, smoothing and intensity of the Bloom effect applied to every identicon. Defaults to those of the default theme.
+ * @returns {SharedIdenticonRenderer | null} The renderer, or null until it is created or when WebGL is unavailable.
+ */
+export const useSharedIdenticonRenderer = (chromaticAberrationOffset: [number, number], bloom: BloomLook = DEFAULT_EFFECT_SETTINGS.bloom) => {
+  const [renderer, setRenderer] = useState<SharedIdenticonRenderer | null>(null);
+  const [offsetX, offsetY] = chromaticAberrationOffset;
+  const { luminanceThreshold, luminanceSmoothing, intensity } = bloom;
+
+  // The renderer is recreated when the effects change, which only happens when the theme is edited
+  useEffect(() => {
+    if (!isWebGLAvailable()) return;
+    const shared = createSharedIdenticonRenderer([offsetX, offsetY], { luminanceThreshold, luminanceSmoothing, intensity });
+    setRenderer(shared);
+    return () => shared.dispose();
+  }, [offsetX, offsetY, luminanceThreshold, luminanceSmoothing, intensity]);
+
+  return renderer;
+};
+
+/**
+ * Props for the SharedIdenticon component
+ *
+ * @interface SharedIdenticonProps
+ * @property {SharedIdenticonRenderer | null} renderer - The shared renderer drawing the identicon.
+ * @property {IdenticonSpec | null} spec - The spec of the identicon, or null while it is loading.
+ * @property {boolean} rotate - Whether the shapes should rotate.
+ */
+interface SharedIdenticonProps {
+  renderer: SharedIdenticonRenderer | null;
+  spec: IdenticonSpec | null;
+  rotate: boolean;
+}
+
+/**
+ * SharedIdenticon component
+ *
+ * Renders a 2D canvas filling its container and registers it as a tile of the shared renderer. The identicon can be
+ * turned with the mouse like the live view.
+ *
+ * @param {SharedIdenticonProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered canvas.
+ */
+const SharedIdenticon: React.FC<SharedIdenticonProps> = ({ renderer, spec, rotate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tile, setTile] = useState<SharedIdenticonTile | null>(null);
+
+  // Register the canvas with the renderer for as long as both exist
+  useEffect(() => {
+    if (!renderer || !canvasRef.current) return;
+    const added = renderer.addTile(canvasRef.current);
+    setTile(added);
+    return () => {
+      added.dispose();
+      setTile(null);
+    };
+  }, [renderer]);
+
+  // Keep the tile showing the current spec and rotation state
+  useEffect(() => {
+    tile?.update(spec, rotate);
+  }, [tile, spec, rotate]);
+
+  return <canvas ref={canvasRef} className="w-full h-full" />;
+};
+
+export default SharedIdenticon;
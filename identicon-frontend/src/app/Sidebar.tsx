@@ -1,26 +1,28 @@
 /**
  * Sidebar.tsx
  * 
- * This file defines the Sidebar component, which displays a list of forum posts along with their corresponding geometric identicons. The identicons are generated using Three.js and can be downloaded in various sizes. Each forum post includes a user's username, the content of the post, and an identicon visually representing the user. The identicon's properties are derived from a SHA-256 hash of the username.
+ * This file defines the Sidebar component, which displays a list of forum posts along with their corresponding geometric identicons. The identicons are generated using Three.js, shown as static snapshots that come to life on hover or focus through a single shared WebGL renderer, and can be downloaded in various sizes and formats, as still images, animations or 3D models. Each forum post includes a user's username, the content of the post, and an identicon visually representing the user. The identicon's shapes come from the identicon spec built from a SHA-256 hash of the username.
  * 
  * Created by Alif Jakir on 7/11/24
  * Updated by Alif Jakir on 7/12/24
  * Contact: alif@halcyox.com
  */
 
-import { Canvas } from '@react-three/fiber';
-import { EffectComposer, Bloom, ChromaticAberration } from '@react-three/postprocessing';
-import { OrbitControls } from '@react-three/drei';
-import GeometricIdenticon from './GeometricIdenticon';
-import { generateHash, captureIdenticon } from './utils';
+import { captureIdenticon, captureIdenticonAnimation, captureIdenticonModel } from './utils';
+import { useIdenticonSpecs } from './useIdenticonSpecs';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_SIZES, ExportOptions } from './exportRenderer';
+import { sidebarChromaticAberration } from './effects';
+import ExportSettings from './ExportSettings';
+import { AnimationOptions, DEFAULT_ANIMATION_OPTIONS } from './animationExport';
+import AnimationSettings from './AnimationSettings';
+import { MODEL_FORMATS, ModelFormat } from './modelExport';
+import { forumIdenticonId, IdenticonRegistry, useIdenticonRef } from './identiconRegistry';
+import { IdenticonSpec } from './identiconSpec';
 import { MutableRefObject, useState } from 'react';
-import * as THREE from 'three';
-
-// Array of possible sizes for identicon downloads
-const sizes = [16, 32, 64, 128, 256, 512];
-
-// Number of shapes to generate within each identicon
-const amountOfShapes = 10;
+import { SharedIdenticonRenderer } from './sharedIdenticonRenderer';
+import { useSharedIdenticonRenderer } from './SharedIdenticon';
+import IdenticonAvatar from './IdenticonAvatar';
+import { useIdenticonTheme } from './useIdenticonTheme';
 
 /**
  * Interface representing a forum post
@@ -30,33 +32,75 @@ const amountOfShapes = 10;
  * @interface ForumPost
  * @property {string} username - The username of the person who made the post.
  * @property {string} post - The content of the forum post.
+ * @property {string} [identiconId] - The identicon ID the server issued for the username, in keyed mode.
  */
 interface ForumPost {
   username: string;
   post: string;
+  identiconId?: string;
 }
 
 /**
  * Props for the Sidebar component
  * 
  * This interface defines the properties passed to the Sidebar component, including an array of forum posts, 
- * a flag for identicon rotation, functions for managing dropdown visibility, and a reference to canvas elements.
+ * a flag for identicon rotation, functions for managing dropdown visibility, and a reference to the identicon registry.
  * 
  * @interface SidebarProps
  * @property {ForumPost[]} forumPosts - Array of forum posts to display.
  * @property {boolean} rotate - Whether the identicons should rotate.
  * @property {function} setDropdownVisible - Function to toggle the visibility of the dropdown menu.
  * @property {Record<number, boolean>} dropdownVisible - Object mapping post indices to their dropdown visibility state.
- * @property {MutableRefObject<(HTMLDivElement | null)[]>} canvasRefs - Mutable reference to an array of canvas containers.
+ * @property {MutableRefObject<IdenticonRegistry>} identiconRegistry - Mutable reference to the registry of identicons on the page.
  */
 interface SidebarProps {
   forumPosts: ForumPost[];
   rotate: boolean;
   setDropdownVisible: (visible: (prev: Record<number, boolean>) => Record<number, boolean>) => void;
   dropdownVisible: Record<number, boolean>;
-  canvasRefs: MutableRefObject<(HTMLDivElement | null)[]>;
+  identiconRegistry: MutableRefObject<IdenticonRegistry>;
+}
+
+/**
+ * Props for the ForumPostIdenticon component
+ *
+ * @interface ForumPostIdenticonProps
+ * @property {MutableRefObject<IdenticonRegistry>} identiconRegistry - Mutable reference to the registry of identicons on the page.
+ * @property {string} id - The registry ID of the post's identicon.
+ * @property {IdenticonSpec | null} spec - The spec of the identicon, or null while it is loading.
+ * @property {SharedIdenticonRenderer | null} renderer - The shared renderer, or null when WebGL is unavailable.
+ * @property {boolean} rotate - Whether the identicon should rotate.
+ * @property {boolean} featured - Whether the identicon is always live.
+ * @property {string} username - The username of the post's author.
+ */
+interface ForumPostIdenticonProps {
+  identiconRegistry: MutableRefObject<IdenticonRegistry>;
+  id: string;
+  spec: IdenticonSpec | null;
+  renderer: SharedIdenticonRenderer | null;
+  rotate: boolean;
+  featured: boolean;
+  username: string;
 }
 
+/**
+ * ForumPostIdenticon component
+ *
+ * Renders the identicon of a forum post in a container registered in the identicon registry, so it can be downloaded.
+ *
+ * @param {ForumPostIdenticonProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered identicon.
+ */
+const ForumPostIdenticon: React.FC<ForumPostIdenticonProps> = ({ identiconRegistry, id, spec, renderer, rotate, featured, username }) => {
+  const identiconRef = useIdenticonRef(identiconRegistry, id, spec);
+
+  return (
+    <div className="forum-identicon-container relative" ref={identiconRef}>
+      <IdenticonAvatar spec={spec} renderer={renderer} rotate={rotate} featured={featured} label={`Identicon of ${username}`} />
+    </div>
+  );
+};
+
 /**
  * Sidebar component to display forum posts and their identicons
  * 
@@ -66,12 +110,40 @@ interface SidebarProps {
  * @param {SidebarProps} props - The properties for the component.
  * @returns {JSX.Element} The rendered sidebar component.
  */
-const Sidebar: React.FC<SidebarProps> = ({ forumPosts, rotate, setDropdownVisible, dropdownVisible, canvasRefs }) => {
-  // State to track the selected size for identicon downloads for each post
-  const [selectedSizes, setSelectedSizes] = useState<Record<number, number>>(forumPosts.reduce((acc, _, index) => {
-    acc[index] = sizes[0];  // Default to the smallest size
+const Sidebar: React.FC<SidebarProps> = ({ forumPosts, rotate, setDropdownVisible, dropdownVisible, identiconRegistry }) => {
+  // State to track the selected export options for identicon downloads for each post
+  const [exportOptions, setExportOptions] = useState<Record<number, ExportOptions>>(forumPosts.reduce((acc, _, index) => {
+    acc[index] = {
+      ...DEFAULT_EXPORT_OPTIONS,
+      size: EXPORT_SIZES[0],  // Default to the smallest size
+    };
+    return acc;
+  }, {} as Record<number, ExportOptions>));
+
+  // State to track the selected animation options for each post
+  const [animationOptions, setAnimationOptions] = useState<Record<number, AnimationOptions>>(forumPosts.reduce((acc, _, index) => {
+    acc[index] = {
+      ...DEFAULT_ANIMATION_OPTIONS,
+      size: 128,
+    };
     return acc;
-  }, {} as Record<number, number>));
+  }, {} as Record<number, AnimationOptions>));
+
+  // State to track the selected 3D model format for each post
+  const [modelFormats, setModelFormats] = useState<Record<number, ModelFormat>>({});
+
+  // The theme sets the number of shapes and the effects, which downloads share with the small canvases
+  const theme = useIdenticonTheme();
+  const themeEffects = {
+    chromaticAberrationOffset: sidebarChromaticAberration(theme.effects.chromaticAberration),
+    bloom: theme.effects.bloom,
+  };
+
+  // Identicon specs for each post, derived from the usernames, which keyed mode only serves by identicon ID
+  const specs = useIdenticonSpecs(forumPosts.map((post) => post.identiconId ?? post.username), theme.shapes);
+
+  // One renderer draws every post's identicon, as browsers only allow a handful of WebGL contexts per page
+  const sharedRenderer = useSharedIdenticonRenderer(themeEffects.chromaticAberrationOffset, themeEffects.bloom);
 
   return (
     <div className="w-1/4 bg-gray-100 p-4 border-r">
@@ -80,23 +152,16 @@ const Sidebar: React.FC<SidebarProps> = ({ forumPosts, rotate, setDropdownVisibl
       {forumPosts.map((post, i) => (
         <div key={i} className="mb-4 p-2 border rounded-md flex items-center relative">
           {/* Container for the identicon */}
-          <div className="forum-identicon-container relative" ref={(el: HTMLDivElement | null) => { canvasRefs.current[i] = el; }}>
-            <Canvas gl={{ preserveDrawingBuffer: true }} camera={{ position: [5, 5, 5], fov: 35 }}>
-              <EffectComposer>
-                <Bloom luminanceThreshold={0.3} luminanceSmoothing={0.75} height={300} />
-                <ChromaticAberration offset={new THREE.Vector2(0.02, 0.015)} radialModulation={false} modulationOffset={0.0} />
-                <ambientLight intensity={3.5} />
-                <pointLight position={[10, 10, 10]} />
-                {/* Generate identicon shapes */}
-                <>
-                  {Array.from({ length: amountOfShapes }, (_, j) => (
-                    <GeometricIdenticon key={j} seed={generateHash(post.username, j)} rotate={rotate} />
-                  ))}
-                </>
-              </EffectComposer>
-              <OrbitControls />
-            </Canvas>
-          </div>
+          {/* The opening post of the thread is featured, so its identicon is always live */}
+          <ForumPostIdenticon
+            identiconRegistry={identiconRegistry}
+            id={forumIdenticonId(i)}
+            spec={specs[i]}
+            renderer={sharedRenderer}
+            rotate={rotate}
+            featured={i === 0}
+            username={post.username}
+          />
           {/* Container for the post content */}
           <div className="ml-4 flex-grow">
             <p className="text-lg font-bold">{post.username}</p>
@@ -113,28 +178,58 @@ const Sidebar: React.FC<SidebarProps> = ({ forumPosts, rotate, setDropdownVisibl
             >
               Download
             </button>
-            {/* Dropdown menu for selecting identicon size and downloading */}
+            {/* Dropdown menu for selecting the export options and downloading */}
             {dropdownVisible[i] && (
               <div className="absolute bg-white border rounded-md mt-1 p-2">
+                <ExportSettings
+                  options={exportOptions[i]}
+                  onChange={(options) => setExportOptions({ ...exportOptions, [i]: options })}
+                  selectClassName="block w-full mb-2 p-1 border rounded-md"
+                  labelClassName="block mb-2 text-sm"
+                />
+                <button
+                  onClick={() => {
+                    setDropdownVisible((prev: Record<number, boolean>) => ({ ...prev, [i]: false }));
+                    captureIdenticon(forumIdenticonId(i), { ...exportOptions[i], ...themeEffects }, identiconRegistry);
+                  }}
+                  className="block w-full bg-green-500 text-white rounded-md px-2 py-1"
+                >
+                  Download
+                </button>
+                <hr className="my-2" />
+                <AnimationSettings
+                  options={animationOptions[i]}
+                  onChange={(options) => setAnimationOptions({ ...animationOptions, [i]: options })}
+                  selectClassName="block w-full mb-2 p-1 border rounded-md"
+                  labelClassName="block mb-2 text-sm"
+                />
+                <button
+                  onClick={() => {
+                    setDropdownVisible((prev: Record<number, boolean>) => ({ ...prev, [i]: false }));
+                    captureIdenticonAnimation(forumIdenticonId(i), { ...animationOptions[i], ...themeEffects }, identiconRegistry);
+                  }}
+                  className="block w-full bg-green-500 text-white rounded-md px-2 py-1"
+                >
+                  Download Animation
+                </button>
+                <hr className="my-2" />
                 <select
-                  value={selectedSizes[i]}
-                  onChange={(e) => setSelectedSizes({ ...selectedSizes, [i]: parseInt(e.target.value) })}
+                  value={modelFormats[i] ?? 'glb'}
+                  onChange={(e) => setModelFormats({ ...modelFormats, [i]: e.target.value as ModelFormat })}
                   className="block w-full mb-2 p-1 border rounded-md"
                 >
-                  {sizes.map((size) => (
-                    <option key={size} value={size}>
-                      {size}x{size}
-                    </option>
+                  {MODEL_FORMATS.map((format) => (
+                    <option key={format} value={format}>{format.toUpperCase()}</option>
                   ))}
                 </select>
                 <button
                   onClick={() => {
                     setDropdownVisible((prev: Record<number, boolean>) => ({ ...prev, [i]: false }));
-                    captureIdenticon(i, selectedSizes[i], canvasRefs);
+                    captureIdenticonModel(forumIdenticonId(i), modelFormats[i] ?? 'glb', identiconRegistry);
                   }}
                   className="block w-full bg-green-500 text-white rounded-md px-2 py-1"
                 >
-                  Download
+                  Download 3D Model
                 </button>
               </div>
             )}
@@ -0,0 +1,90 @@
+/**
+ * StyleSettings.tsx
+ *
+ * This file defines the StyleSettings component, which renders the identicon style picker and the controls for the
+ * options of the chosen style. The controls are generated from the option schema each style declares in the style
+ * registry, so new styles and options need no changes here.
+ */
+
+import { IDENTICON_STYLE_IDS, IDENTICON_STYLES, IdenticonStyleId } from './identiconStyles';
+import { IdenticonStyleState } from './useIdenticonStyle';
+
+/**
+ * Props for the StyleSettings component
+ *
+ * @interface StyleSettingsProps
+ * @property {IdenticonStyleState} state - The chosen style and options, as returned by useIdenticonStyle.
+ * @property {string} selectClassName - Class names applied to the dropdown menu and number inputs.
+ * @property {string} labelClassName - Class names applied to the option labels.
+ */
+interface StyleSettingsProps {
+  state: IdenticonStyleState;
+  selectClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * StyleSettings component
+ *
+ * Renders a dropdown menu listing every registered style, followed by a number input or checkbox per option of the
+ * chosen style. Options following a theme setting offer to return to the theme's value once they are set.
+ *
+ * @param {StyleSettingsProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered style controls.
+ */
+const StyleSettings: React.FC<StyleSettingsProps> = ({ state: { style, options, overrides, setStyle, setOption, resetOption }, selectClassName, labelClassName }) => (
+  <>
+    {/* Dropdown menu to select the identicon style */}
+    <select
+      value={style.id}
+      onChange={(e) => setStyle(e.target.value as IdenticonStyleId)}
+      title={style.description}
+      className={selectClassName}
+    >
+      {IDENTICON_STYLE_IDS.map((id) => (
+        <option key={id} value={id}>{IDENTICON_STYLES[id].name} style</option>
+      ))}
+    </select>
+
+    {/* One control per option of the chosen style */}
+    {style.options.map((option) => (
+      <label key={option.key} className={labelClassName}>
+        {option.type === 'boolean' ? (
+          <>
+            <input
+              type="checkbox"
+              checked={options[option.key] as boolean}
+              onChange={(e) => setOption(option.key, e.target.checked)}
+            />{' '}
+            {option.label}
+          </>
+        ) : (
+          <>
+            {option.label}{' '}
+            <input
+              type="number"
+              value={options[option.key] as number}
+              min={option.min}
+              max={option.max}
+              step={option.step}
+              onChange={(e) => {
+                const value = e.target.valueAsNumber;
+                if (Number.isFinite(value)) {
+                  setOption(option.key, Math.min(option.max ?? value, Math.max(option.min ?? value, value)));
+                }
+              }}
+              className={`${selectClassName} w-24`}
+            />
+          </>
+        )}
+        {option.themeSetting && option.key in overrides && (
+          <button type="button" onClick={() => resetOption(option.key)} className="ml-1 text-sm text-blue-500">
+            Use theme
+          </button>
+        )}
+      </label>
+    ))}
+  </>
+);
+
+export default StyleSettings;
@@ -0,0 +1,410 @@
+/**
+ * ThemeDesigner.tsx
+ *
+ * This file defines the ThemeDesigner component, the panel in which the identicon theme is designed: the name, the
+ * spec version, the shape count, the geometries the hash picks from, the palette and its strategy, the material
+ * families, which only version 3 uses, and the strength of the effects. Every change applies live to the identicons on
+ * the page, and themes can be saved as JSON files and loaded again.
+ */
+
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import {
+  GEOMETRY_TYPES,
+  GeometryType,
+  IdenticonSpecVersion,
+  MATERIAL_FAMILIES,
+  MATERIALS_SPEC_VERSION,
+  MaterialFamily,
+  SUPPORTED_SPEC_VERSIONS,
+  WIREFRAME_RULES,
+  WireframeRule,
+} from './identiconSpec';
+import {
+  CURATED_PALETTE_IDS,
+  CURATED_PALETTES,
+  CuratedPaletteId,
+  isHexColor,
+  MAX_MIN_CONTRAST,
+  MAX_PALETTE_COLORS,
+  MIN_MIN_CONTRAST,
+  normalizeHexColor,
+  PALETTE_MODES,
+  PaletteMode,
+} from './identiconPalette';
+import {
+  DEFAULT_THEME,
+  IdenticonTheme,
+  MAX_BLOOM_INTENSITY,
+  MAX_CHROMATIC_ABERRATION,
+  MAX_THEME_NAME_LENGTH,
+  MAX_THEME_SHAPES,
+  MIN_THEME_SHAPES,
+  parseTheme,
+  serializeTheme,
+  themeFilename,
+} from './identiconTheme';
+import { downloadBlob } from './utils';
+
+/**
+ * Props for the ThemeDesigner component
+ *
+ * @interface ThemeDesignerProps
+ * @property {IdenticonTheme} theme - The theme being designed.
+ * @property {function} onChange - Receives the theme after every change.
+ * @property {string} selectClassName - Class names applied to the inputs and dropdown menus.
+ * @property {string} labelClassName - Class names applied to the labels.
+ */
+interface ThemeDesignerProps {
+  theme: IdenticonTheme;
+  onChange: (theme: IdenticonTheme) => void;
+  selectClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * Props for the ThemeNumber component
+ *
+ * @interface ThemeNumberProps
+ * @property {string} label - Label shown before the input.
+ * @property {number} value - The current value.
+ * @property {number} min - Smallest value.
+ * @property {number} max - Largest value.
+ * @property {number} step - Step between values.
+ * @property {function} onChange - Receives the new value, clamped to the bounds.
+ * @property {string} inputClassName - Class names applied to the input.
+ * @property {string} labelClassName - Class names applied to the label.
+ */
+interface ThemeNumberProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  inputClassName: string;
+  labelClassName: string;
+}
+
+/**
+ * Props for the ThemeList component
+ *
+ * @interface ThemeListProps
+ * @property {string} label - Label shown before the input.
+ * @property {T[]} value - The current items.
+ * @property {function} parseItem - Reads an item from its text, returning undefined when the text is not a valid item.
+ * @property {function} onChange - Receives the items once every item is valid.
+ * @property {string} inputClassName - Class names applied to the input.
+ * @property {string} labelClassName - Class names applied to the label.
+ */
+interface ThemeListProps<T> {
+  label: string;
+  value: T[];
+  parseItem: (text: string) => T | undefined;
+  onChange: (value: T[]) => void;
+  inputClassName: string;
+  labelClassName: string;
+}
+
+// Labels of the spec versions in the designer
+const SPEC_VERSION_LABELS: Record<IdenticonSpecVersion, string> = {
+  1: 'Original hashes (version 1)',
+  2: 'Plain material (version 2)',
+  3: 'Hash-driven materials and lighting (version 3)',
+};
+
+// Labels of the palette modes in the designer
+const PALETTE_MODE_LABELS: Record<PaletteMode, string> = {
+  spectrum: 'Any hue',
+  curated: 'Color-blind-safe palette',
+  hues: 'Hue set',
+  brand: 'Brand colors',
+};
+
+/**
+ * ThemeList component
+ *
+ * Renders a labeled text input editing a list of a theme as comma-separated items. The text is kept while it is being
+ * typed, and the list only changes once every item is valid and there are between 1 and MAX_PALETTE_COLORS items.
+ *
+ * @param {ThemeListProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered input.
+ */
+const ThemeList = <T,>({ label, value, parseItem, onChange, inputClassName, labelClassName }: ThemeListProps<T>) => {
+  const text = value.join(', ');
+  const [draft, setDraft] = useState(text);
+
+  // The list last sent to onChange, so only lists changed elsewhere, such as by loading a theme, replace the draft
+  const sent = useRef(text);
+  useEffect(() => {
+    if (text !== sent.current) setDraft(text);
+    sent.current = text;
+  }, [text]);
+
+  const items = draft.split(',').map((item) => parseItem(item.trim()));
+  const valid = items.length <= MAX_PALETTE_COLORS && items.every((item) => item !== undefined);
+
+  return (
+    <label className={labelClassName}>
+      {label}{' '}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const next = e.target.value.split(',').map((item) => parseItem(item.trim()));
+          if (next.length <= MAX_PALETTE_COLORS && next.every((item) => item !== undefined)) {
+            sent.current = next.join(', ');
+            onChange(next as T[]);
+          }
+        }}
+        onBlur={() => setDraft(text)}
+        className={`${inputClassName} ${valid ? '' : 'border-red-500'}`}
+      />
+    </label>
+  );
+};
+
+/**
+ * Reads a hue of a hue set.
+ *
+ * @param {string} text - The text of the hue, in degrees.
+ * @returns {number | undefined} The hue, or undefined when the text is not a hue between 0 and 360.
+ */
+const parseHue = (text: string) => {
+  const hue = Number(text);
+  return text && Number.isFinite(hue) && hue >= 0 && hue <= 360 ? hue : undefined;
+};
+
+/**
+ * Reads a brand color.
+ *
+ * @param {string} text - The text of the color.
+ * @returns {string | undefined} The hex color, or undefined when the text is not a hex color.
+ */
+const parseBrandColor = (text: string) => (isHexColor(text) ? normalizeHexColor(text) : undefined);
+
+/**
+ * ThemeNumber component
+ *
+ * Renders a labeled number input for one setting of the theme.
+ *
+ * @param {ThemeNumberProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered input.
+ */
+const ThemeNumber: React.FC<ThemeNumberProps> = ({ label, value, min, max, step, onChange, inputClassName, labelClassName }) => (
+  <label className={labelClassName}>
+    {label}{' '}
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const next = e.target.valueAsNumber;
+        if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, next)));
+      }}
+      className={`${inputClassName} w-24`}
+    />
+  </label>
+);
+
+/**
+ * ThemeDesigner component
+ *
+ * Renders the controls of every setting of the theme, grouped by shapes, palette, material and effects, followed by
+ * buttons to save the theme as a file, load a theme file and go back to the default theme.
+ *
+ * @param {ThemeDesignerProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered designer.
+ */
+const ThemeDesigner: React.FC<ThemeDesignerProps> = ({ theme, onChange, selectClassName, labelClassName }) => {
+  // Error of the last theme file that could not be loaded, if any
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const number = { inputClassName: selectClassName, labelClassName };
+  const { palette, material, effects } = theme;
+  const setPalette = (changes: Partial<typeof palette>) => onChange({ ...theme, palette: { ...palette, ...changes } });
+
+  /**
+   * Adds a geometry to the set the hash picks from, or removes it while others remain.
+   * Geometries keep the order of GEOMETRY_TYPES, so a set always maps the hash the same way.
+   *
+   * @param {GeometryType} type - The geometry.
+   * @param {boolean} included - Whether the geometry should be in the set.
+   */
+  const toggleGeometry = (type: GeometryType, included: boolean) => {
+    const geometries = GEOMETRY_TYPES.filter((other) => (other === type ? included : theme.geometries.includes(other)));
+    if (geometries.length) onChange({ ...theme, geometries });
+  };
+
+  /**
+   * Adds a material family to the set the hash picks from, or removes it while others remain, keeping the order of
+   * MATERIAL_FAMILIES like toggleGeometry.
+   *
+   * @param {MaterialFamily} family - The material family.
+   * @param {boolean} included - Whether the family should be in the set.
+   */
+  const toggleFamily = (family: MaterialFamily, included: boolean) => {
+    const families = MATERIAL_FAMILIES.filter((other) => (other === family ? included : material.families.includes(other)));
+    if (families.length) onChange({ ...theme, material: { ...material, families } });
+  };
+
+  /**
+   * Loads a theme file chosen by the user.
+   *
+   * @param {ChangeEvent<HTMLInputElement>} e - The change event of the file input.
+   */
+  const loadTheme = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseTheme(JSON.parse(await file.text())));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(`Cannot load ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      {/* Name of the theme, used for saved files */}
+      <label className={labelClassName}>
+        Theme{' '}
+        <input
+          type="text"
+          value={theme.name}
+          maxLength={MAX_THEME_NAME_LENGTH}
+          onChange={(e) => onChange({ ...theme, name: e.target.value })}
+          onBlur={() => onChange({ ...theme, name: theme.name.trim() || DEFAULT_THEME.name })}
+          className={selectClassName}
+        />
+      </label>
+
+      {/* Spec version, number of shapes and the geometries the hash picks from */}
+      <div className="mt-2">
+        <select
+          value={theme.version}
+          onChange={(e) => onChange({ ...theme, version: Number(e.target.value) as IdenticonSpecVersion })}
+          className={selectClassName}
+        >
+          {SUPPORTED_SPEC_VERSIONS.map((version) => (
+            <option key={version} value={version}>{SPEC_VERSION_LABELS[version]}</option>
+          ))}
+        </select>
+        <ThemeNumber label="Shapes" value={theme.shapes} min={MIN_THEME_SHAPES} max={MAX_THEME_SHAPES} step={1} onChange={(shapes) => onChange({ ...theme, shapes })} {...number} />
+        {GEOMETRY_TYPES.map((type) => (
+          <label key={type} className={labelClassName}>
+            <input
+              type="checkbox"
+              checked={theme.geometries.includes(type)}
+              disabled={theme.geometries.length === 1 && theme.geometries.includes(type)}
+              onChange={(e) => toggleGeometry(type, e.target.checked)}
+            />{' '}
+            {type}
+          </label>
+        ))}
+      </div>
+
+      {/* Palette strategy and the colors it picks from */}
+      <div className="mt-2">
+        <select
+          value={palette.mode}
+          onChange={(e) => setPalette({ mode: e.target.value as PaletteMode })}
+          className={selectClassName}
+        >
+          {PALETTE_MODES.map((mode) => (
+            <option key={mode} value={mode}>{PALETTE_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        {palette.mode === 'curated' && (
+          <select
+            value={palette.curated}
+            onChange={(e) => setPalette({ curated: e.target.value as CuratedPaletteId })}
+            className={selectClassName}
+          >
+            {CURATED_PALETTE_IDS.map((id) => (
+              <option key={id} value={id}>{CURATED_PALETTES[id].name}</option>
+            ))}
+          </select>
+        )}
+        {palette.mode === 'hues' && (
+          <ThemeList label="Hues" value={palette.hues} parseItem={parseHue} onChange={(hues) => setPalette({ hues })} {...number} />
+        )}
+        {palette.mode === 'brand' && (
+          <ThemeList label="Colors" value={palette.brand} parseItem={parseBrandColor} onChange={(brand) => setPalette({ brand })} {...number} />
+        )}
+        {(palette.mode === 'spectrum' || palette.mode === 'hues') && (
+          <>
+            <ThemeNumber label="Saturation %" value={palette.saturation} min={0} max={100} step={1} onChange={(saturation) => setPalette({ saturation })} {...number} />
+            <ThemeNumber label="Lightness %" value={palette.lightness} min={0} max={100} step={1} onChange={(lightness) => setPalette({ lightness })} {...number} />
+          </>
+        )}
+        <ThemeNumber label="Min contrast" value={palette.minContrast} min={MIN_MIN_CONTRAST} max={MAX_MIN_CONTRAST} step={0.5} onChange={(minContrast) => setPalette({ minContrast })} {...number} />
+        <label className={labelClassName}>
+          against{' '}
+          <input type="color" value={palette.background} onChange={(e) => setPalette({ background: e.target.value })} />
+        </label>
+      </div>
+
+      {/* Material of the shapes */}
+      <div className="mt-2">
+        <ThemeNumber label="Opacity from" value={material.opacity[0]} min={0} max={material.opacity[1]} step={0.05} onChange={(min) => onChange({ ...theme, material: { ...material, opacity: [min, material.opacity[1]] } })} {...number} />
+        <ThemeNumber label="to" value={material.opacity[1]} min={material.opacity[0]} max={1} step={0.05} onChange={(max) => onChange({ ...theme, material: { ...material, opacity: [material.opacity[0], max] } })} {...number} />
+        <select
+          value={material.wireframe}
+          onChange={(e) => onChange({ ...theme, material: { ...material, wireframe: e.target.value as WireframeRule } })}
+          className={selectClassName}
+        >
+          {WIREFRAME_RULES.map((rule) => (
+            <option key={rule} value={rule}>{rule.charAt(0).toUpperCase() + rule.slice(1)} wireframes</option>
+          ))}
+        </select>
+        {MATERIAL_FAMILIES.map((family) => (
+          <label key={family} className={labelClassName}>
+            <input
+              type="checkbox"
+              checked={material.families.includes(family)}
+              disabled={theme.version < MATERIALS_SPEC_VERSION || (material.families.length === 1 && material.families.includes(family))}
+              onChange={(e) => toggleFamily(family, e.target.checked)}
+            />{' '}
+            {family}
+          </label>
+        ))}
+      </div>
+
+      {/* Strength of Bloom and Chromatic Aberration */}
+      <div className="mt-2">
+        <ThemeNumber label="Bloom threshold" value={effects.bloom.luminanceThreshold} min={0} max={1} step={0.05} onChange={(luminanceThreshold) => onChange({ ...theme, effects: { ...effects, bloom: { ...effects.bloom, luminanceThreshold } } })} {...number} />
+        <ThemeNumber label="smoothing" value={effects.bloom.luminanceSmoothing} min={0} max={1} step={0.05} onChange={(luminanceSmoothing) => onChange({ ...theme, effects: { ...effects, bloom: { ...effects.bloom, luminanceSmoothing } } })} {...number} />
+        <ThemeNumber label="intensity" value={effects.bloom.intensity} min={0} max={MAX_BLOOM_INTENSITY} step={0.1} onChange={(intensity) => onChange({ ...theme, effects: { ...effects, bloom: { ...effects.bloom, intensity } } })} {...number} />
+        <ThemeNumber label="Aberration x" value={effects.chromaticAberration[0]} min={0} max={MAX_CHROMATIC_ABERRATION} step={0.0005} onChange={(x) => onChange({ ...theme, effects: { ...effects, chromaticAberration: [x, effects.chromaticAberration[1]] } })} {...number} />
+        <ThemeNumber label="y" value={effects.chromaticAberration[1]} min={0} max={MAX_CHROMATIC_ABERRATION} step={0.0005} onChange={(y) => onChange({ ...theme, effects: { ...effects, chromaticAberration: [effects.chromaticAberration[0], y] } })} {...number} />
+      </div>
+
+      {/* Buttons to save, load and reset the theme */}
+      <div className="mt-2">
+        <button
+          onClick={() => downloadBlob(new Blob([serializeTheme(theme)], { type: 'application/json' }), themeFilename(theme))}
+          className="px-4 py-2 ml-2 text-lg bg-blue-500 text-white rounded-md hover:bg-blue-700"
+        >
+          Save Theme
+        </button>
+        <label className="px-4 py-2 ml-2 text-lg bg-blue-500 text-white rounded-md hover:bg-blue-700 cursor-pointer">
+          Load Theme
+          <input type="file" accept="application/json,.json" onChange={loadTheme} className="hidden" />
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_THEME)}
+          className="px-4 py-2 ml-2 text-lg bg-gray-500 text-white rounded-md hover:bg-gray-700"
+        >
+          Reset Theme
+        </button>
+      </div>
+      {loadError && <p className="mt-2 text-red-500">{loadError}</p>}
+    </div>
+  );
+};
+
+export default ThemeDesigner;
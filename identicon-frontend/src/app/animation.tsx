@@ -0,0 +1,48 @@
+/**
+ * animation.tsx
+ *
+ * This file contains the motion used to animate identicons: the gentle rotation wobble applied to every shape while
+ * rotation is enabled, and the camera orbit used for turntable exports. The live scene and the animation exporter both
+ * use these functions, so recorded animations move exactly like the page.
+ */
+
+import { Vec3 } from './identiconSpec';
+import { FIXED_FRAMING, IdenticonFraming } from './framing';
+
+/**
+ * Period of the rotation wobble in seconds.
+ *
+ * The wobble combines sines with periods 2π, 3π and 4π, which all line up again after 12π seconds, so a recording of
+ * one full period loops seamlessly.
+ */
+export const WOBBLE_PERIOD = Math.PI * 12;
+
+/**
+ * Computes a shape's rotation at a point in time of the wobble.
+ *
+ * @param {Vec3} rotation - The shape's resting rotation in radians.
+ * @param {number} time - The elapsed time in seconds.
+ * @returns {Vec3} The rotation at that time.
+ */
+export const wobbleRotation = (rotation: Vec3, time: number): Vec3 => [
+  rotation[0] + Math.sin(time) * 0.15,
+  rotation[1] + Math.sin(time / 1.5) * 0.2,
+  rotation[2] + Math.sin(time / 2) * 0.2,
+];
+
+/**
+ * Computes the camera position for a turntable orbit around the vertical axis through the camera's target.
+ *
+ * The orbit keeps the camera's height and distance from the axis, and starts at the framed camera position.
+ *
+ * @param {number} angle - The orbit angle in radians.
+ * @param {IdenticonFraming} [framing] - The camera placement the orbit starts from. Defaults to the fixed camera.
+ * @returns {Vec3} The camera position.
+ */
+export const orbitCameraPosition = (angle: number, framing: IdenticonFraming = FIXED_FRAMING): Vec3 => {
+  const [tx, ty, tz] = framing.target;
+  const [x, y, z] = [framing.position[0] - tx, framing.position[1], framing.position[2] - tz];
+  const radius = Math.hypot(x, z);
+  const start = Math.atan2(z, x);
+  return [tx + radius * Math.cos(start + angle), y, tz + radius * Math.sin(start + angle)];
+};
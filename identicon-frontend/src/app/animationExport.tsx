@@ -0,0 +1,208 @@
+/**
+ * animationExport.tsx
+ *
+ * This file records animated identicons as GIF or WebM files. Frames are drawn with the offscreen export renderer, either
+ * replaying the rotation wobble of the live scene or orbiting the camera once around the identicon. Both motions end
+ * where they started, so the recordings loop seamlessly.
+ */
+
+import { Mesh } from 'three';
+import { IdenticonSpec } from './identiconSpec';
+import { createExportRenderer, DEFAULT_EXPORT_OPTIONS } from './exportRenderer';
+import { orbitCameraPosition, WOBBLE_PERIOD, wobbleRotation } from './animation';
+import { FramingMode } from './framing';
+import { BloomLook } from './effects';
+
+/**
+ * The file formats animations can be exported as.
+ */
+export const ANIMATION_FORMATS = ['gif', 'webm'] as const;
+
+export type AnimationFormat = typeof ANIMATION_FORMATS[number];
+
+/**
+ * The motions an animation can record: the shapes' rotation wobble, or a full 360° camera orbit.
+ */
+export const ANIMATION_MODES = ['wobble', 'orbit'] as const;
+
+export type AnimationMode = typeof ANIMATION_MODES[number];
+
+// Sizes, frame counts and frame rates offered for animation exports
+export const ANIMATION_SIZES = [64, 128, 256, 512];
+export const ANIMATION_FRAME_COUNTS = [24, 36, 48, 72, 96, 120];
+export const ANIMATION_FRAME_RATES = [10, 12, 15, 24, 30];
+
+// GIF has no partial transparency, so GIF frames are drawn on the page's white background
+const GIF_BACKGROUND = '#ffffff';
+
+/**
+ * Options for an animation export.
+ *
+ * The loop lasts frames / fps seconds. The whole motion is always recorded, so a longer loop plays it more slowly.
+ *
+ * @interface AnimationOptions
+ * @property {AnimationFormat} format - The file format.
+ * @property {AnimationMode} mode - The recorded motion.
+ * @property {number} frames - Number of frames in one loop.
+ * @property {number} fps - Playback speed in frames per second.
+ * @property {number} size - Width and height of the animation in pixels.
+ * @property {boolean} effects - Whether Bloom and Chromatic Aberration are applied.
+ * @property {[number, number]} [chromaticAberrationOffset] - Offset of the chromatic aberration. Defaults to the main view's offset.
+ * @property {BloomLook} [bloom] - Threshold, smoothing and intensity of the Bloom effect, as set by the theme. Defaults to those of BLOOM_SETTINGS.
+ * @property {FramingMode} [framing] - How the camera is fitted to the shapes. Defaults to DEFAULT_FRAMING_MODE.
+ */
+export interface AnimationOptions {
+  format: AnimationFormat;
+  mode: AnimationMode;
+  frames: number;
+  fps: number;
+  size: number;
+  effects: boolean;
+  chromaticAberrationOffset?: [number, number];
+  bloom?: BloomLook;
+  framing?: FramingMode;
+}
+
+// Animation options used until the user changes them
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  format: 'gif',
+  mode: 'orbit',
+  frames: 48,
+  fps: 12,
+  size: 256,
+  effects: true,
+};
+
+/**
+ * Renders every frame of an identicon animation.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to animate.
+ * @param {AnimationOptions} options - The animation options.
+ * @returns {Promise<HTMLCanvasElement[]>} One canvas per frame, in playback order.
+ */
+export const renderAnimationFrames = async (spec: IdenticonSpec, options: AnimationOptions): Promise<HTMLCanvasElement[]> => {
+  const { format, mode, frames, size, effects, chromaticAberrationOffset, bloom, framing } = options;
+  if (!Number.isInteger(frames) || frames < 1) {
+    throw new Error('Frame count must be a positive integer');
+  }
+
+  const exportRenderer = await createExportRenderer(spec, {
+    ...DEFAULT_EXPORT_OPTIONS,
+    size,
+    effects,
+    chromaticAberrationOffset,
+    bloom,
+    framing,
+    background: format === 'gif' ? GIF_BACKGROUND : null,
+  });
+
+  try {
+    // The scene holds one mesh per shape, in the same order as the spec
+    const meshes = exportRenderer.scene.children.filter((object): object is Mesh => object instanceof Mesh);
+    const { camera, framing } = exportRenderer;
+
+    return Array.from({ length: frames }, (_, frame) => {
+      // The last frame stops one step short of the start, so the loop has no repeated frame
+      const progress = frame / frames;
+      if (mode === 'wobble') {
+        meshes.forEach((mesh, i) => mesh.rotation.set(...wobbleRotation(spec.shapes[i].rotation, progress * WOBBLE_PERIOD)));
+      } else {
+        camera.position.set(...orbitCameraPosition(progress * Math.PI * 2, framing));
+        camera.lookAt(...framing.target);
+      }
+      return exportRenderer.renderFrame();
+    });
+  } finally {
+    exportRenderer.dispose();
+  }
+};
+
+/**
+ * Encodes animation frames as a looping GIF.
+ *
+ * @param {HTMLCanvasElement[]} frames - The frames, all of the same size.
+ * @param {number} fps - Playback speed in frames per second.
+ * @returns {Promise<Blob>} The GIF file.
+ */
+const encodeGif = async (frames: HTMLCanvasElement[], fps: number): Promise<Blob> => {
+  // Loaded on demand, as gifshot touches the window when it is imported
+  const { createGIF } = await import('gifshot');
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    createGIF({
+      images: frames.map((frame) => frame.toDataURL('image/png')),
+      gifWidth: frames[0].width,
+      gifHeight: frames[0].height,
+      numFrames: frames.length,
+      // For existing images, gifshot shows each frame for interval seconds and repeats it frameDuration times
+      interval: 1 / fps,
+      frameDuration: 1,
+    }, (result) => {
+      if (result.error || !result.image) {
+        reject(new Error(`Failed to encode the GIF: ${result.errorMsg ?? result.errorCode ?? 'unknown error'}`));
+      } else {
+        resolve(result.image);
+      }
+    });
+  });
+  return (await fetch(dataUrl)).blob();
+};
+
+/**
+ * Encodes animation frames as a WebM video by replaying them into a MediaRecorder.
+ *
+ * MediaRecorder records in real time, so encoding takes as long as one loop of the animation.
+ *
+ * @param {HTMLCanvasElement[]} frames - The frames, all of the same size.
+ * @param {number} fps - Playback speed in frames per second.
+ * @returns {Promise<Blob>} The WebM file.
+ */
+const encodeWebm = async (frames: HTMLCanvasElement[], fps: number): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('WebM export is not supported by this browser');
+  }
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('WebM export is not supported by this browser');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get 2D context for the recording canvas');
+  }
+
+  // A frame rate of 0 makes the stream emit a frame only when requestFrame is called
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (const frame of frames) {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(frame, 0, 0);
+    track.requestFrame();
+    await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Records an identicon animation and encodes it in the requested format.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to animate.
+ * @param {AnimationOptions} options - The animation options.
+ * @returns {Promise<Blob>} The GIF or WebM file.
+ */
+export const renderIdenticonAnimation = async (spec: IdenticonSpec, options: AnimationOptions): Promise<Blob> => {
+  const frames = await renderAnimationFrames(spec, options);
+  return options.format === 'gif' ? encodeGif(frames, options.fps) : encodeWebm(frames, options.fps);
+};
@@ -0,0 +1,64 @@
+/**
+ * route.ts
+ *
+ * This file defines the route handler for `/api/identicon/[seed]`, which returns an identicon as an image so it can be
+ * used directly in `<img>` tags, emails and other services. The image is rendered from the identicon spec by the
+ * software renderer or the SVG renderer, so no GPU is needed.
+ *
+ * Query parameters: `size` (16-1024, default 256), `format` (png or svg), `background` ("transparent" or a hex color),
+ * `style` (geometric or grid, default geometric), `framing` (tight, padded or fixed, default padded) for the geometric
+ * style, `grid` (4-12 cells, default 5) and `padding` (0-2 cells, default 0.5) for the grid style, and the spec options
+ * `shapes`, `version` and `namespace`. In keyed mode the path segment must be an identicon ID issued by the server, as
+ * for the `/api/spec/[seed]` route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import CryptoJS from 'crypto-js';
+import {
+  buildServerIdenticon,
+  IMAGE_CONTENT_TYPES,
+  parseImageOptions,
+  parseSpecOptions,
+  renderIdenticonImage,
+  resolveIdenticonSeed,
+} from '../../../identiconServer';
+
+// Identicons never change for a given spec, but a day-long browser cache leaves room to rotate the secret key
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+/**
+ * Handles GET requests for an identicon image.
+ *
+ * @param {NextRequest} request - The incoming request, whose query parameters hold the image and spec options.
+ * @param {Object} context - The route context.
+ * @param {Object} context.params - The dynamic route parameters.
+ * @param {string} context.params.seed - The seed to render the identicon for, or its identicon ID in keyed mode.
+ * @returns {NextResponse} The image, a 304 response when the client's copy is current, a 404 response for unknown identicon IDs, or a 400 response describing invalid parameters.
+ */
+export function GET(request: NextRequest, { params }: { params: { seed: string } }) {
+  const seed = resolveIdenticonSeed(params.seed);
+  if (seed === null) {
+    return NextResponse.json({ error: 'Unknown identicon ID' }, { status: 404 });
+  }
+
+  let specOptions, imageOptions;
+  try {
+    specOptions = parseSpecOptions(request.nextUrl.searchParams);
+    imageOptions = parseImageOptions(request.nextUrl.searchParams);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const identicon = { ...buildServerIdenticon(seed, specOptions, imageOptions), seed: params.seed };
+
+  // The identicon and image options fully determine the output, so their hash is a strong validator
+  const etag = `"${CryptoJS.SHA256(JSON.stringify({ identicon, imageOptions })).toString()}"`;
+  const headers = { 'Cache-Control': CACHE_CONTROL, ETag: etag };
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(renderIdenticonImage(identicon, imageOptions), {
+    headers: { ...headers, 'Content-Type': IMAGE_CONTENT_TYPES[imageOptions.format] },
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * route.ts
+ *
+ * This file defines the route handler for `/api/oembed`, the oEmbed endpoint of the site. Given the URL of a permalink
+ * or an embed, such as `/api/oembed?url=https://example.com/i/Jane?shapes=12`, it describes the identicon as a "rich"
+ * oEmbed response whose HTML is an iframe of the seed's `/embed/[seed]` page with the same view.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requestOrigin } from '../../identiconServer';
+import { buildEmbedUrl, EMBED_PATH, PERMALINK_PATH } from '../../permalink';
+
+// Width and height of the iframe in pixels, unless the consumer asks for less
+const DEFAULT_EMBED_SIZE = 256;
+
+// Query parameter of permalinks that sets the download size rather than the look of the identicon
+const DOWNLOAD_SIZE_PARAM = 'size';
+
+/**
+ * Escapes text for an HTML attribute value.
+ *
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+const escapeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Reads the seed of a permalink or embed URL.
+ *
+ * @param {URL} url - The URL.
+ * @returns {string | null} The seed, or null when the URL is neither a permalink nor an embed.
+ */
+const urlSeed = (url: URL) => {
+  const match = url.pathname.match(new RegExp(`^(?:${PERMALINK_PATH}|${EMBED_PATH})/([^/]+)/?$`));
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses the `maxwidth` or `maxheight` parameter of an oEmbed request.
+ *
+ * @param {string | null} raw - The parameter value.
+ * @returns {number} The largest size allowed in pixels, or Infinity when the value is missing or invalid.
+ */
+const parseMaxSize = (raw: string | null) => {
+  const value = Number(raw);
+  return raw !== null && Number.isInteger(value) && value > 0 ? value : Infinity;
+};
+
+/**
+ * Handles GET requests for the oEmbed description of an identicon.
+ *
+ * Only the JSON format is supported. URLs of other sites, and URLs of this site that are neither permalinks nor embeds,
+ * get a 404 response as the oEmbed specification requires.
+ *
+ * @param {NextRequest} request - The incoming request, whose `url`, `format`, `maxwidth` and `maxheight` query parameters describe the embed.
+ * @returns {NextResponse} The oEmbed response, or an error response.
+ */
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  if ((params.get('format') ?? 'json') !== 'json') {
+    return NextResponse.json({ error: 'Only the json format is supported' }, { status: 501 });
+  }
+
+  const rawUrl = params.get('url');
+  if (!rawUrl) {
+    return NextResponse.json({ error: 'Missing url parameter' }, { status: 400 });
+  }
+
+  const origin = requestOrigin(request.headers);
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return NextResponse.json({ error: `Invalid url: ${rawUrl}` }, { status: 400 });
+  }
+  const seed = url.host === new URL(origin).host ? urlSeed(url) : null;
+  if (seed === null) {
+    return NextResponse.json({ error: `Not an identicon permalink or embed: ${rawUrl}` }, { status: 404 });
+  }
+
+  const size = Math.min(DEFAULT_EMBED_SIZE, parseMaxSize(params.get('maxwidth')), parseMaxSize(params.get('maxheight')));
+  url.searchParams.delete(DOWNLOAD_SIZE_PARAM);
+  const src = buildEmbedUrl(origin, seed, url.search);
+  const title = `Identicon for ${seed}`;
+
+  return NextResponse.json({
+    version: '1.0',
+    type: 'rich',
+    title,
+    provider_name: 'Identicon Generator',
+    provider_url: origin,
+    width: size,
+    height: size,
+    html: `<iframe src="${escapeAttribute(src)}" width="${size}" height="${size}" title="${escapeAttribute(title)}" style="border:0" loading="lazy"></iframe>`,
+  });
+}
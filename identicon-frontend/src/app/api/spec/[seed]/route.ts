@@ -0,0 +1,38 @@
+/**
+ * route.ts
+ *
+ * This file defines the route handler for `/api/spec/[seed]`, which returns the identicon spec for a seed as JSON, or
+ * with `style=head` or `style=grid` the head spec or the grid identicon (whose size is the `grid` parameter).
+ * Specs are built on the server so that, when IDENTICON_SECRET is set, the keyed shape hashes can be computed without
+ * the key ever reaching the browser. In keyed mode the path segment must be an identicon ID issued by the server rather
+ * than a raw seed, so the route cannot be used to look up the identicon of any username or email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildRequestedIdenticon, resolveIdenticonSeed } from '../../../identiconServer';
+
+/**
+ * Handles GET requests for an identicon spec.
+ *
+ * @param {NextRequest} request - The incoming request, whose query parameters hold the style and spec options.
+ * @param {Object} context - The route context.
+ * @param {Object} context.params - The dynamic route parameters.
+ * @param {string} context.params.seed - The seed to build the spec for, or its identicon ID in keyed mode.
+ * @returns {NextResponse} The spec as JSON, a 404 response for unknown identicon IDs, or a 400 response describing invalid parameters.
+ */
+export function GET(request: NextRequest, { params }: { params: { seed: string } }) {
+  const seed = resolveIdenticonSeed(params.seed);
+  if (seed === null) {
+    return NextResponse.json({ error: 'Unknown identicon ID' }, { status: 404 });
+  }
+
+  let identicon;
+  try {
+    identicon = buildRequestedIdenticon(seed, request.nextUrl.searchParams);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  // The spec is named after the path segment, so keyed specs never reveal the seed behind their ID
+  return NextResponse.json({ ...identicon, seed: params.seed });
+}
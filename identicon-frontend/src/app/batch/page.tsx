@@ -0,0 +1,149 @@
+/**
+ * batch/page.tsx
+ *
+ * This file contains the batch generation page. Users paste a list of usernames or upload a CSV or JSON roster, choose
+ * the export settings, and download a ZIP holding one identicon per username plus a manifest. A progress bar follows
+ * the batch, which can be cancelled at any time. Identicons are drawn with the theme chosen in the generator's designer.
+ */
+
+"use client";
+
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from '../exportRenderer';
+import ExportSettings from '../ExportSettings';
+import { generateIdenticonBatch, parseRoster } from '../batchExport';
+import { downloadBlob } from '../utils';
+import { useStoredTheme } from '../useIdenticonTheme';
+
+/**
+ * Batch Component
+ *
+ * Renders the roster input, the export settings and the controls to start, follow and cancel a batch.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered batch page.
+ */
+export default function Batch() {
+  // State to track the roster text, pasted or loaded from a file
+  const [roster, setRoster] = useState('');
+
+  // State to track the size, format and other options of the generated images
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  // State to track the progress of the running batch, or null when no batch is running
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+
+  // State to hold the message shown after a batch fails or is cancelled
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Theme chosen in the generator's designer
+  const [theme] = useStoredTheme();
+
+  // Controller of the running batch, used to cancel it
+  const abortController = useRef<AbortController | null>(null);
+
+  // Usernames parsed from the roster, or the parsing error
+  const parsed = useMemo(() => {
+    try {
+      return { usernames: parseRoster(roster), error: null };
+    } catch (error) {
+      return { usernames: [], error: (error as Error).message };
+    }
+  }, [roster]);
+
+  /**
+   * Loads an uploaded CSV or JSON roster into the roster text.
+   *
+   * @param {ChangeEvent<HTMLInputElement>} e - The file input change event.
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setRoster(await file.text());
+  };
+
+  /**
+   * Generates the identicons of every username in the roster and downloads the ZIP archive.
+   */
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    setMessage(null);
+
+    try {
+      const zip = await generateIdenticonBatch(parsed.usernames, exportOptions, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      }, theme);
+
+      downloadBlob(zip, `identicons-${exportOptions.size}x${exportOptions.size}.zip`);
+    } catch (error) {
+      setMessage(controller.signal.aborted ? 'Batch cancelled.' : `Batch failed: ${(error as Error).message}`);
+    } finally {
+      abortController.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 mt-12">
+      <h1 className="text-4xl mb-4">Batch Identicon Generation</h1>
+      <p className="text-lg mb-4">
+        Paste one username per line, or upload a CSV with a <code>username</code> column or a JSON array of usernames or posts.{' '}
+        <Link href="/" className="text-blue-500">Back to the generator</Link>
+      </p>
+
+      {/* Roster input, pasted or uploaded */}
+      <textarea
+        value={roster}
+        onChange={(e) => setRoster(e.target.value)}
+        disabled={progress !== null}
+        rows={10}
+        placeholder={'Quiznos\nBoberta\nCharlie'}
+        className="w-full px-4 py-2 text-lg border rounded-md font-mono"
+      />
+      <input type="file" accept=".csv,.json,.txt,text/csv,application/json,text/plain" onChange={handleFileChange} disabled={progress !== null} className="mt-2" />
+      <p className={`mt-2 ${parsed.error ? 'text-red-500' : ''}`}>
+        {parsed.error ?? `${parsed.usernames.length} usernames, drawn with the ${theme.name} theme`}
+      </p>
+
+      {/* Controls for the size, format, quality, background and effects of the images */}
+      <div className="mt-4">
+        <ExportSettings
+          options={exportOptions}
+          onChange={setExportOptions}
+          selectClassName="px-4 py-2 mr-2 text-lg border rounded-md"
+          labelClassName="mr-2 text-lg"
+        />
+      </div>
+
+      {/* Buttons to start and cancel the batch */}
+      <div className="mt-4">
+        <button
+          onClick={handleGenerate}
+          disabled={progress !== null || parsed.usernames.length === 0}
+          className="px-4 py-2 text-lg bg-red-500 text-white rounded-md hover:bg-red-700"
+        >
+          Generate ZIP
+        </button>
+        {progress && (
+          <button
+            onClick={() => abortController.current?.abort()}
+            className="px-4 py-2 ml-2 text-lg bg-gray-500 text-white rounded-md hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {/* Progress of the running batch */}
+      {progress && (
+        <div className="mt-4">
+          <progress value={progress.done} max={progress.total} className="w-full" />
+          <p>{progress.done} / {progress.total}</p>
+        </div>
+      )}
+      {message && <p className="mt-4">{message}</p>}
+    </div>
+  );
+}
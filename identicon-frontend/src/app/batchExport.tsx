@@ -0,0 +1,243 @@
+/**
+ * batchExport.tsx
+ *
+ * This file generates identicons for a whole roster of usernames at once. A roster is a pasted list, a CSV file or a
+ * JSON file shaped like the forumPosts array in data.tsx. Every identicon is rendered with the offscreen export renderer
+ * and bundled into a ZIP archive together with a manifest mapping each username to the hash its identicon is derived
+ * from and to its file name.
+ *
+ * Identicons are rendered one at a time, yielding to the browser in between, so the page stays responsive and the batch
+ * can be cancelled at any point.
+ */
+
+import { IdenticonSpec, SPEC_SEED_DERIVATIONS } from './identiconSpec';
+import { deriveShapeHash } from './seedDerivation';
+import { DEFAULT_THEME, IdenticonTheme, serializeTheme } from './identiconTheme';
+import { ExportOptions, renderIdenticonCanvas } from './exportRenderer';
+import { loadIdenticonSpec } from './useIdenticonSpecs';
+import { createZip, ZipEntry } from './zip';
+
+// Name of the manifest file inside the ZIP archive
+export const BATCH_MANIFEST_NAME = 'manifest.json';
+
+/**
+ * An identicon listed in a batch manifest.
+ *
+ * @interface BatchManifestEntry
+ * @property {string} username - The username the identicon was generated from.
+ * @property {string} [seedHash] - Hash of the identicon's first shape, as derived by deriveShapeHash, keyed when the identicon is. Omitted for keyed identicons built without access to the key, such as those fetched by the browser.
+ * @property {string} filename - Name of the image file in the archive.
+ */
+export interface BatchManifestEntry {
+  username: string;
+  seedHash?: string;
+  filename: string;
+}
+
+/**
+ * The manifest stored next to the images of a batch.
+ *
+ * @interface BatchManifest
+ * @property {number} specVersion - Version of the spec algorithm the identicons were actually built with.
+ * @property {number} shapes - Number of shapes in each identicon.
+ * @property {number} size - Width and height of the images in pixels.
+ * @property {string} format - The image format.
+ * @property {IdenticonTheme} [theme] - The theme the identicons were drawn with, unless it is the default theme.
+ * @property {BatchManifestEntry[]} identicons - One entry per username, in roster order.
+ */
+export interface BatchManifest {
+  specVersion: number;
+  shapes: number;
+  size: number;
+  format: string;
+  theme?: IdenticonTheme;
+  identicons: BatchManifestEntry[];
+}
+
+/**
+ * Builds the manifest entry of an identicon. The command-line tool and the batch page share it, so both manifests hash
+ * seeds the same way.
+ *
+ * @param {string} username - The username the identicon was generated from.
+ * @param {string} filename - Name of the identicon's file.
+ * @param {Pick<IdenticonSpec, 'version' | 'namespace' | 'keyed'>} identicon - The identicon spec or grid identicon built for the username.
+ * @param {string} [key] - The secret key keyed identicons were built with, when available.
+ * @returns {BatchManifestEntry} The manifest entry.
+ */
+export const batchManifestEntry = (
+  username: string,
+  filename: string,
+  { version, namespace, keyed }: Pick<IdenticonSpec, 'version' | 'namespace' | 'keyed'>,
+  key?: string,
+): BatchManifestEntry => ({
+  username,
+  ...((!keyed || key !== undefined) && {
+    seedHash: deriveShapeHash(username, 0, { derivation: SPEC_SEED_DERIVATIONS[version], namespace, key: keyed ? key : undefined }),
+  }),
+  filename,
+});
+
+/**
+ * Callbacks and signals used while a batch is generated.
+ *
+ * @interface BatchProgressOptions
+ * @property {AbortSignal} [signal] - Aborts the batch when triggered.
+ * @property {function} [onProgress] - Called after each identicon with the number done and the total.
+ */
+export interface BatchProgressOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Splits one line of CSV into its cells, honoring double-quoted cells.
+ *
+ * @param {string} line - The CSV line.
+ * @returns {string[]} The cells, trimmed.
+ */
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Parses a roster of usernames.
+ *
+ * JSON rosters are an array of usernames or an array of objects with a username property, like forumPosts. Anything
+ * else is read as CSV: the "username" column when the first row is a header naming it, the first column otherwise. A
+ * pasted list with one username per line is a one-column CSV. Blank and repeated usernames are dropped.
+ *
+ * @param {string} text - The roster contents.
+ * @returns {string[]} The usernames, in roster order.
+ */
+export const parseRoster = (text: string): string[] => {
+  const trimmed = text.trim();
+  let usernames: string[];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The roster is not valid JSON');
+    }
+    if (!Array.isArray(json)) {
+      throw new Error('A JSON roster must be an array');
+    }
+    usernames = json.map((item, i) => {
+      if (typeof item === 'string') return item;
+      const username = (item as { username?: unknown } | null)?.username;
+      if (typeof username !== 'string') {
+        throw new Error(`Roster entry ${i + 1} has no username`);
+      }
+      return username;
+    });
+  } else {
+    const rows = trimmed.split(/\r?\n/).filter((line) => line.trim()).map(parseCsvLine);
+    const column = rows.length ? rows[0].findIndex((cell) => cell.toLowerCase() === 'username') : -1;
+    usernames = (column >= 0 ? rows.slice(1) : rows).map((row) => row[Math.max(column, 0)] ?? '');
+  }
+
+  return Array.from(new Set(usernames.map((username) => username.trim()).filter(Boolean)));
+};
+
+/**
+ * Builds a unique, file-system safe file name for every username.
+ *
+ * @param {string[]} usernames - The usernames.
+ * @param {string} extension - The file extension, without the dot.
+ * @returns {string[]} One file name per username, in order.
+ */
+export const batchFilenames = (usernames: string[], extension: string): string[] => {
+  const used = new Set<string>([BATCH_MANIFEST_NAME]);
+  return usernames.map((username) => {
+    const base = username.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '_') || 'identicon';
+    let filename = `${base}.${extension}`;
+    for (let n = 2; used.has(filename.toLowerCase()); n++) {
+      filename = `${base}-${n}.${extension}`;
+    }
+    used.add(filename.toLowerCase());
+    return filename;
+  });
+};
+
+/**
+ * Renders the identicon of every username and bundles them into a ZIP archive with a manifest.
+ *
+ * @param {string[]} usernames - The usernames, as returned by parseRoster.
+ * @param {ExportOptions} options - The size, format and effects of the images.
+ * @param {BatchProgressOptions} [progress] - Progress callback and cancellation signal.
+ * @param {IdenticonTheme} [theme] - The theme of the identicons, whose shape count, shapes and effects are used. Defaults to DEFAULT_THEME.
+ * @returns {Promise<Blob>} The ZIP archive. Rejects with an AbortError when the signal is aborted.
+ */
+export const generateIdenticonBatch = async (
+  usernames: string[],
+  options: ExportOptions,
+  { signal, onProgress }: BatchProgressOptions = {},
+  theme: IdenticonTheme = DEFAULT_THEME,
+): Promise<Blob> => {
+  const filenames = batchFilenames(usernames, options.format === 'jpeg' ? 'jpg' : options.format);
+  const entries: ZipEntry[] = [];
+  const manifest: BatchManifest = {
+    specVersion: theme.version,
+    shapes: theme.shapes,
+    size: options.size,
+    format: options.format,
+    ...(serializeTheme(theme) !== serializeTheme(DEFAULT_THEME) && { theme }),
+    identicons: [],
+  };
+  const themedOptions: ExportOptions = {
+    chromaticAberrationOffset: theme.effects.chromaticAberration,
+    bloom: theme.effects.bloom,
+    ...options,
+  };
+
+  onProgress?.(0, usernames.length);
+  for (let i = 0; i < usernames.length; i++) {
+    signal?.throwIfAborted();
+
+    const username = usernames[i];
+    const spec = await loadIdenticonSpec(username, theme.shapes, theme);
+    const canvas = await renderIdenticonCanvas(spec, themedOptions);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, `image/${options.format}`, options.quality));
+    if (!blob) {
+      throw new Error(`Failed to encode the identicon of "${username}" as ${options.format}`);
+    }
+
+    entries.push({ name: filenames[i], data: new Uint8Array(await blob.arrayBuffer()) });
+    // The browser never holds the key, so keyed identicons are listed without their hash
+    manifest.identicons.push(batchManifestEntry(username, filenames[i], spec));
+    manifest.specVersion = spec.version;
+    onProgress?.(i + 1, usernames.length);
+
+    // Give the browser a chance to paint and handle input before the next identicon
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  signal?.throwIfAborted();
+
+  entries.push({ name: BATCH_MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
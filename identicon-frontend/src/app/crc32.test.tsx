@@ -0,0 +1,18 @@
+/**
+ * crc32.test.tsx
+ *
+ * Tests of the CRC-32 checksums of PNG chunks and ZIP entries against the standard check values.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    const encoder = new TextEncoder();
+    expect(crc32(new Uint8Array(0))).toBe(0);
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+    expect(crc32(encoder.encode('IEND'))).toBe(0xae426082);
+  });
+});
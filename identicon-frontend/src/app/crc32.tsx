@@ -0,0 +1,28 @@
+/**
+ * crc32.tsx
+ *
+ * This file computes CRC-32 checksums, as used by the PNG chunks and ZIP entries the project writes.
+ */
+
+// Lookup table for the CRC-32 checksum
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Computes the CRC-32 checksum of a buffer.
+ *
+ * @param {Uint8Array} data - The bytes to checksum.
+ * @returns {number} The unsigned checksum.
+ */
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
@@ -0,0 +1,67 @@
+/**
+ * effects.tsx
+ *
+ * This file holds the settings of the post-processing effects applied to identicon scenes, shared by the live canvases
+ * and the offscreen export renderer so both produce the same look. Themes can change the strength of the effects (see
+ * identiconTheme.tsx); the settings here are the defaults.
+ */
+
+// Bloom settings for every identicon scene
+export const BLOOM_SETTINGS = {
+  luminanceThreshold: 0.3,
+  luminanceSmoothing: 0.75,
+  intensity: 1,
+  height: 300,
+};
+
+// Chromatic aberration offsets; the small sidebar canvases use a stronger offset so the effect stays visible
+export const MAIN_CHROMATIC_ABERRATION_OFFSET: [number, number] = [0.005, 0.0015];
+export const SIDEBAR_CHROMATIC_ABERRATION_OFFSET: [number, number] = [0.02, 0.015];
+
+/**
+ * The look of the Bloom effect.
+ *
+ * @interface BloomLook
+ * @property {number} luminanceThreshold - Luminance from which pixels glow, between 0 and 1.
+ * @property {number} luminanceSmoothing - Smoothness of the threshold, between 0 and 1.
+ * @property {number} intensity - Strength of the glow.
+ */
+export interface BloomLook {
+  luminanceThreshold: number;
+  luminanceSmoothing: number;
+  intensity: number;
+}
+
+/**
+ * The look of the post-processing effects, as set by a theme.
+ *
+ * @interface EffectSettings
+ * @property {BloomLook} bloom - The look of the Bloom effect.
+ * @property {[number, number]} chromaticAberration - Offset of the chromatic aberration in the main view. The sidebar scales it up like its default offset.
+ */
+export interface EffectSettings {
+  bloom: BloomLook;
+  chromaticAberration: [number, number];
+}
+
+// Effects of the original identicons
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  bloom: {
+    luminanceThreshold: BLOOM_SETTINGS.luminanceThreshold,
+    luminanceSmoothing: BLOOM_SETTINGS.luminanceSmoothing,
+    intensity: BLOOM_SETTINGS.intensity,
+  },
+  chromaticAberration: MAIN_CHROMATIC_ABERRATION_OFFSET,
+};
+
+/**
+ * Scales a chromatic aberration offset of the main view to the small sidebar canvases, axis by axis, as much as the
+ * default sidebar offset exceeds the default main offset.
+ *
+ * @param {[number, number]} offset - Offset of the chromatic aberration in the main view.
+ * @returns {[number, number]} Offset of the chromatic aberration in the sidebar.
+ */
+export const sidebarChromaticAberration = ([x, y]: [number, number]): [number, number] => [
+  x * SIDEBAR_CHROMATIC_ABERRATION_OFFSET[0] / MAIN_CHROMATIC_ABERRATION_OFFSET[0],
+  y * SIDEBAR_CHROMATIC_ABERRATION_OFFSET[1] / MAIN_CHROMATIC_ABERRATION_OFFSET[1],
+];
@@ -0,0 +1,56 @@
+/**
+ * embed/[seed]/page.tsx
+ *
+ * This file contains the embed page of an identicon: the bare identicon of the seed from the path, for iframes on other
+ * sites and for oEmbed responses. The query parameters hold the view, with the names of the `<identicon-3d>` element's
+ * attributes except for `style`, which names the style as in permalinks, e.g.
+ * `/embed/Jane?style=geometric&shapes=12&effects=false&interactive=false`.
+ */
+
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import IdenticonEmbed from '../../IdenticonEmbed';
+import { requestOrigin } from '../../identiconServer';
+import { buildEmbedUrl, buildOEmbedUrl, toSearchParams } from '../../permalink';
+
+/**
+ * Props of the embed page
+ *
+ * @interface EmbedPageProps
+ * @property {Object} params - The dynamic route parameters.
+ * @property {string} params.seed - The seed to show, still percent-encoded.
+ * @property {Record<string, string | string[] | undefined>} searchParams - The query parameters holding the view.
+ */
+interface EmbedPageProps {
+  params: { seed: string };
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Builds the metadata of an embed, which announces its oEmbed description.
+ *
+ * @param {EmbedPageProps} props - The route parameters and query parameters.
+ * @returns {Metadata} The page metadata.
+ */
+export const generateMetadata = ({ params, searchParams }: EmbedPageProps): Metadata => {
+  const origin = requestOrigin(headers());
+  const seed = decodeURIComponent(params.seed);
+  const embedUrl = buildEmbedUrl(origin, seed, toSearchParams(searchParams).toString());
+
+  return {
+    title: `Identicon for ${seed}`,
+    robots: { index: false },
+    alternates: { types: { 'application/json+oembed': buildOEmbedUrl(origin, embedUrl) } },
+  };
+};
+
+/**
+ * Embed Component
+ *
+ * @component
+ * @param {EmbedPageProps} props - The route parameters and query parameters.
+ * @returns {JSX.Element} The rendered embed page.
+ */
+export default function Embed({ params, searchParams }: EmbedPageProps) {
+  return <IdenticonEmbed seed={decodeURIComponent(params.seed)} search={toSearchParams(searchParams).toString()} />;
+}
@@ -0,0 +1,177 @@
+/**
+ * exportRenderer.tsx
+ *
+ * This file renders identicons offscreen for export. Instead of scaling the on-screen canvas, it draws the identicon
+ * spec into its own WebGL renderer at the requested resolution, with an optional transparent background, with the
+ * post-processing effects switched on or off, and with the camera framed like the live view.
+ */
+
+import { HalfFloatType, NoToneMapping, PerspectiveCamera, Scene, Vector2, WebGLRenderer } from 'three';
+import type { EffectComposer } from 'postprocessing';
+import { IdenticonSpec } from './identiconSpec';
+import { buildIdenticonScene, disposeIdenticonScene } from './identiconScene';
+import { createIdenticonCamera } from './identiconProjection';
+import { BLOOM_SETTINGS, BloomLook, MAIN_CHROMATIC_ABERRATION_OFFSET } from './effects';
+import { DEFAULT_FRAMING_MODE, frameIdenticon, FramingMode, IdenticonFraming } from './framing';
+
+// Sizes offered for identicon exports
+export const EXPORT_SIZES = [16, 32, 64, 128, 256, 512, 1024, 2048, 4096];
+
+// Largest export size in pixels
+export const MAX_EXPORT_SIZE = 4096;
+
+/**
+ * The image formats identicons can be exported as.
+ */
+export const EXPORT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Background used when a format without transparency is requested with a transparent background
+const OPAQUE_FALLBACK_BACKGROUND = '#ffffff';
+
+/**
+ * Options for an identicon export.
+ *
+ * @interface ExportOptions
+ * @property {number} size - Width and height of the image in pixels, up to MAX_EXPORT_SIZE.
+ * @property {ExportFormat} format - The image format.
+ * @property {number} quality - Quality of JPEG and WebP images, between 0 and 1. Ignored for PNG.
+ * @property {string | null} background - Background color as a CSS color, or null for a transparent background.
+ * @property {boolean} effects - Whether Bloom and Chromatic Aberration are applied.
+ * @property {[number, number]} [chromaticAberrationOffset] - Offset of the chromatic aberration. Defaults to the main view's offset.
+ * @property {BloomLook} [bloom] - Threshold, smoothing and intensity of the Bloom effect, as set by the theme. Defaults to those of BLOOM_SETTINGS.
+ * @property {FramingMode} [framing] - How the camera is fitted to the shapes. Defaults to DEFAULT_FRAMING_MODE.
+ */
+export interface ExportOptions {
+  size: number;
+  format: ExportFormat;
+  quality: number;
+  background: string | null;
+  effects: boolean;
+  chromaticAberrationOffset?: [number, number];
+  bloom?: BloomLook;
+  framing?: FramingMode;
+}
+
+// Export options used until the user changes them
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  size: 256,
+  format: 'png',
+  quality: 0.92,
+  background: null,
+  effects: true,
+};
+
+/**
+ * An offscreen renderer for one identicon, used to draw one or more frames.
+ *
+ * @interface ExportRenderer
+ * @property {Scene} scene - The identicon scene, whose meshes follow the order of the spec's shapes.
+ * @property {PerspectiveCamera} camera - The camera viewing the scene.
+ * @property {IdenticonFraming} framing - The placement of the camera fitted to the shapes.
+ * @property {function} renderFrame - Renders the scene as it currently is and returns a 2D canvas holding the frame.
+ * @property {function} dispose - Releases the scene and the WebGL context.
+ */
+export interface ExportRenderer {
+  scene: Scene;
+  camera: PerspectiveCamera;
+  framing: IdenticonFraming;
+  renderFrame: () => HTMLCanvasElement;
+  dispose: () => void;
+}
+
+/**
+ * Creates an offscreen renderer for an identicon at the requested resolution.
+ *
+ * A dedicated WebGL renderer draws the spec, optionally through the same post-processing effects as the live view.
+ * Each frame is copied to its own 2D canvas, so frames stay valid after the renderer is disposed.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to render.
+ * @param {ExportOptions} options - The export options. The format is only used to pick the background, and the quality is ignored.
+ * @returns {Promise<ExportRenderer>} The renderer. Call dispose when done.
+ */
+export const createExportRenderer = async (spec: IdenticonSpec, options: ExportOptions): Promise<ExportRenderer> => {
+  const {
+    size,
+    format,
+    effects,
+    chromaticAberrationOffset = MAIN_CHROMATIC_ABERRATION_OFFSET,
+    bloom,
+    framing: framingMode = DEFAULT_FRAMING_MODE,
+  } = options;
+  if (!Number.isInteger(size) || size < 1 || size > MAX_EXPORT_SIZE) {
+    throw new Error(`Export size must be an integer between 1 and ${MAX_EXPORT_SIZE}`);
+  }
+
+  // JPEG has no alpha channel, so it always gets an opaque background
+  const background = options.background ?? (format === 'jpeg' ? OPAQUE_FALLBACK_BACKGROUND : null);
+
+  const renderer = new WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+  renderer.setPixelRatio(1);
+  renderer.setSize(size, size, false);
+  // The live view's effect composer disables tone mapping, so exports match it with or without effects
+  renderer.toneMapping = NoToneMapping;
+  renderer.setClearColor(background ?? 0x000000, background ? 1 : 0);
+
+  const scene = buildIdenticonScene(spec);
+  const framing = frameIdenticon(spec, framingMode);
+  const camera = createIdenticonCamera(1, framing);
+
+  let composer: EffectComposer | null = null;
+  if (effects) {
+    // Loaded on demand so the post-processing library stays out of bundles that never export
+    const { EffectComposer, RenderPass, EffectPass, BloomEffect, ChromaticAberrationEffect } = await import('postprocessing');
+    composer = new EffectComposer(renderer, { multisampling: 8, frameBufferType: HalfFloatType });
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(new EffectPass(camera, new BloomEffect({ ...BLOOM_SETTINGS, ...bloom })));
+    composer.addPass(new EffectPass(camera, new ChromaticAberrationEffect({
+      offset: new Vector2(...chromaticAberrationOffset),
+      radialModulation: false,
+      modulationOffset: 0.0,
+    })));
+  }
+
+  const renderFrame = () => {
+    if (composer) {
+      composer.render();
+    } else {
+      renderer.render(scene, camera);
+    }
+
+    const output = document.createElement('canvas');
+    output.width = size;
+    output.height = size;
+    const ctx = output.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D context for the export canvas');
+    }
+    ctx.drawImage(renderer.domElement, 0, 0);
+    return output;
+  };
+
+  const dispose = () => {
+    composer?.dispose();
+    disposeIdenticonScene(scene);
+    renderer.dispose();
+    renderer.forceContextLoss();
+  };
+
+  return { scene, camera, framing, renderFrame, dispose };
+};
+
+/**
+ * Renders an identicon offscreen at the requested resolution.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to render.
+ * @param {ExportOptions} options - The export options.
+ * @returns {Promise<HTMLCanvasElement>} A 2D canvas holding the rendered identicon.
+ */
+export const renderIdenticonCanvas = async (spec: IdenticonSpec, options: ExportOptions): Promise<HTMLCanvasElement> => {
+  const exportRenderer = await createExportRenderer(spec, options);
+  try {
+    return exportRenderer.renderFrame();
+  } finally {
+    exportRenderer.dispose();
+  }
+};
@@ -0,0 +1,168 @@
+/**
+ * framing.tsx
+ *
+ * This file computes where the camera of an identicon scene stands and what it looks at. Shapes are placed anywhere in a
+ * ±5 cube and scaled up to 2.5×, so a fixed camera crops some seeds and leaves others mostly empty. Framing fits the
+ * camera to the bounding box of the generated shapes instead, always looking from the same direction as the original
+ * camera. The live view, the offscreen exporters and the GPU-free renderers all frame through this module, so every
+ * output shows the same picture.
+ *
+ * Three framing modes are available:
+ * - "tight" fits the shapes as seen from the camera, filling the image.
+ * - "padded" fits a sphere holding every shape in any orientation, so rotation and orbiting never crop a shape.
+ * - "fixed" keeps the original camera at [5, 5, 5] looking at the origin, reproducing images made before framing existed.
+ */
+
+import { Box3, Euler, Matrix4, Quaternion, Sphere, Vector3 } from 'three';
+import { IdenticonSpec, Vec3 } from './identiconSpec';
+import { createGeometry } from './geometries';
+import { CAMERA_FOV, CAMERA_POSITION } from './identiconProjection';
+
+/**
+ * The ways the camera can be fitted to an identicon.
+ */
+export const FRAMING_MODES = ['tight', 'padded', 'fixed'] as const;
+
+export type FramingMode = typeof FRAMING_MODES[number];
+
+// Framing used unless another mode is requested
+export const DEFAULT_FRAMING_MODE: FramingMode = 'padded';
+
+/**
+ * Placement of the camera viewing an identicon.
+ *
+ * @interface IdenticonFraming
+ * @property {Vec3} position - Position of the camera.
+ * @property {Vec3} target - The point the camera looks at, and orbits around.
+ */
+export interface IdenticonFraming {
+  position: Vec3;
+  target: Vec3;
+}
+
+// The original camera placement, used by the "fixed" mode
+export const FIXED_FRAMING: IdenticonFraming = { position: CAMERA_POSITION, target: [0, 0, 0] };
+
+// Share of the image kept empty around the shapes, on each side
+const FRAME_MARGIN = 0.04;
+
+/**
+ * Computes the world-space vertices of every shape in a spec, as placed at rest.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @returns {Vector3[]} The vertices of all shapes.
+ */
+const shapeVertices = (spec: IdenticonSpec): Vector3[] => spec.shapes.flatMap((shape) => {
+  const geometry = createGeometry(shape.type);
+  const matrix = new Matrix4().compose(
+    new Vector3(...shape.position),
+    new Quaternion().setFromEuler(new Euler(...shape.rotation)),
+    new Vector3(...shape.scale),
+  );
+  const positions = geometry.getAttribute('position');
+  const vertices = Array.from({ length: positions.count }, (_, i) => new Vector3().fromBufferAttribute(positions, i).applyMatrix4(matrix));
+  geometry.dispose();
+  return vertices;
+});
+
+/**
+ * Computes spheres holding each shape of a spec in any orientation.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @returns {Sphere[]} One sphere per shape, centered on the shape's position.
+ */
+const shapeSpheres = (spec: IdenticonSpec): Sphere[] => spec.shapes.map((shape) => {
+  const geometry = createGeometry(shape.type);
+  geometry.computeBoundingSphere();
+  const { center, radius } = geometry.boundingSphere as Sphere;
+  geometry.dispose();
+  // The geometry's own sphere may be off-center, so it is widened to be centered on the shape's origin
+  return new Sphere(new Vector3(...shape.position), (center.length() + radius) * Math.max(...shape.scale));
+});
+
+/**
+ * Computes the axes of the camera looking from the original camera's direction.
+ *
+ * @returns {[Vector3, Vector3, Vector3]} The right, up and backward axes, like the camera's local x, y and z axes.
+ */
+const cameraAxes = (): [Vector3, Vector3, Vector3] => {
+  const backward = new Vector3(...CAMERA_POSITION).normalize();
+  const right = new Vector3(0, 1, 0).cross(backward).normalize();
+  const up = backward.clone().cross(right);
+  return [right, up, backward];
+};
+
+/**
+ * Fits the camera around the shapes as seen from the camera's direction.
+ *
+ * The target is centered on the shapes in the image plane, then the camera backs away until every vertex lies within
+ * the field of view, minus the margin.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @param {number} aspect - Aspect ratio of the image.
+ * @returns {IdenticonFraming} The camera placement.
+ */
+const frameTight = (spec: IdenticonSpec, aspect: number): IdenticonFraming => {
+  const axes = cameraAxes();
+  const [right, up, backward] = axes;
+  const local = shapeVertices(spec).map((v) => axes.map((axis) => v.dot(axis)));
+  const mid = [0, 1, 2].map((k) => {
+    const values = local.map((v) => v[k]);
+    return (Math.min(...values) + Math.max(...values)) / 2;
+  });
+
+  const tanY = Math.tan((CAMERA_FOV / 2) * Math.PI / 180) * (1 - 2 * FRAME_MARGIN);
+  const tanX = tanY * aspect;
+  const distance = Math.max(...local.map(([x, y, z]) =>
+    z - mid[2] + Math.max(Math.abs(x - mid[0]) / tanX, Math.abs(y - mid[1]) / tanY)));
+
+  const target = new Vector3()
+    .addScaledVector(right, mid[0])
+    .addScaledVector(up, mid[1])
+    .addScaledVector(backward, mid[2]);
+  return {
+    position: target.clone().addScaledVector(backward, distance).toArray(),
+    target: target.toArray(),
+  };
+};
+
+/**
+ * Fits the camera around a sphere holding every shape in any orientation.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @param {number} aspect - Aspect ratio of the image.
+ * @returns {IdenticonFraming} The camera placement.
+ */
+const framePadded = (spec: IdenticonSpec, aspect: number): IdenticonFraming => {
+  const spheres = shapeSpheres(spec);
+  const bounds = new Box3();
+  spheres.forEach((sphere) => bounds.union(sphere.getBoundingBox(new Box3())));
+  const center = bounds.getCenter(new Vector3());
+  const radius = Math.max(...spheres.map((sphere) => sphere.center.distanceTo(center) + sphere.radius));
+
+  // The sphere has to fit the narrower of the two fields of view
+  const tanY = Math.tan((CAMERA_FOV / 2) * Math.PI / 180);
+  const halfFov = Math.atan(Math.min(tanY, tanY * aspect) * (1 - 2 * FRAME_MARGIN));
+  const distance = radius / Math.sin(halfFov);
+
+  const [, , backward] = cameraAxes();
+  return {
+    position: center.clone().addScaledVector(backward, distance).toArray(),
+    target: center.toArray(),
+  };
+};
+
+/**
+ * Computes the camera placement for an identicon.
+ *
+ * Specs without shapes, and the "fixed" mode, get the original camera placement.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @param {FramingMode} [mode] - How the camera is fitted. Defaults to DEFAULT_FRAMING_MODE.
+ * @param {number} [aspect] - Aspect ratio of the image. Defaults to square.
+ * @returns {IdenticonFraming} The camera placement.
+ */
+export const frameIdenticon = (spec: IdenticonSpec, mode: FramingMode = DEFAULT_FRAMING_MODE, aspect = 1): IdenticonFraming => {
+  if (mode === 'fixed' || spec.shapes.length === 0) return FIXED_FRAMING;
+  return mode === 'tight' ? frameTight(spec, aspect) : framePadded(spec, aspect);
+};
@@ -0,0 +1,50 @@
+/**
+ * geometries.tsx
+ *
+ * This file defines the Three.js geometry used for each shape type of an identicon spec. The live scene, the software
+ * renderers and the exporters all build their meshes from this table, so every output shows the same geometry.
+ * It only depends on Three.js core classes, which work without a WebGL context.
+ */
+
+import {
+  BoxGeometry,
+  BufferGeometry,
+  ConeGeometry,
+  DodecahedronGeometry,
+  OctahedronGeometry,
+  SphereGeometry,
+  TetrahedronGeometry,
+  TorusKnotGeometry,
+} from 'three';
+import { GeometryType } from './identiconSpec';
+
+/**
+ * Constructor arguments of the geometry for each shape type.
+ */
+export const GEOMETRY_ARGS = {
+  box: [1, 1, 1],
+  sphere: [1.5, 32, 32],
+  cone: [0.5, 1, 32],
+  torusKnot: [1.5, 0.01, 100, 16],
+  dodecahedron: [0.75, 0],
+  octahedron: [0.75, 0],
+  tetrahedron: [0.75, 0],
+} as const satisfies Record<GeometryType, readonly number[]>;
+
+/**
+ * Creates the Three.js geometry for a shape type.
+ *
+ * @param {GeometryType} type - The shape type.
+ * @returns {BufferGeometry} A new geometry, owned by the caller.
+ */
+export const createGeometry = (type: GeometryType): BufferGeometry => {
+  switch (type) {
+    case 'box': return new BoxGeometry(...GEOMETRY_ARGS.box);
+    case 'sphere': return new SphereGeometry(...GEOMETRY_ARGS.sphere);
+    case 'cone': return new ConeGeometry(...GEOMETRY_ARGS.cone);
+    case 'torusKnot': return new TorusKnotGeometry(...GEOMETRY_ARGS.torusKnot);
+    case 'dodecahedron': return new DodecahedronGeometry(...GEOMETRY_ARGS.dodecahedron);
+    case 'octahedron': return new OctahedronGeometry(...GEOMETRY_ARGS.octahedron);
+    case 'tetrahedron': return new TetrahedronGeometry(...GEOMETRY_ARGS.tetrahedron);
+  }
+};
@@ -0,0 +1,202 @@
+/**
+ * headSpec.tsx
+ *
+ * This file defines the framework-free generator of the "head" identicon style. Given a seed string, buildHeadSpec
+ * returns a plain JSON description of a portrait: the tint, pose and finish of the head, the hash-colored lighting, the
+ * ring of primitives orbiting the head and an optional accessory. Every property comes from the seed's hashes, so two
+ * users' heads differ in many independent ways and stay distinguishable at avatar size.
+ *
+ * Hashes are derived with the "v1" seed derivation in the "style:head" namespace, so head identicons are independent of
+ * the geometric identicons of the same seed. Like them, they can be keyed with the server's secret key.
+ */
+
+import { deriveShapeHash } from './seedDerivation';
+import { getColorFromHash, getRandomValue, Vec3 } from './identiconSpec';
+
+// Namespace the head hashes are derived in
+const HEAD_NAMESPACE = 'style:head';
+
+/**
+ * The geometry types a primitive of the ring can take, in the order they are selected from the hash.
+ */
+export const HEAD_PRIMITIVE_TYPES = ['sphere', 'box', 'cone', 'torus', 'octahedron'] as const;
+
+export type HeadPrimitiveType = typeof HEAD_PRIMITIVE_TYPES[number];
+
+/**
+ * The accessories a head can wear, in the order they are selected from the hash.
+ */
+export const HEAD_ACCESSORIES = ['none', 'halo', 'crown', 'antenna'] as const;
+
+export type HeadAccessory = typeof HEAD_ACCESSORIES[number];
+
+// Bounds on the number of primitives in the ring
+export const MIN_HEAD_PRIMITIVES = 6;
+export const MAX_HEAD_PRIMITIVES = 14;
+
+/**
+ * Description of the head model.
+ *
+ * @interface HeadDescription
+ * @property {string} tint - Color of the head material as a CSS color string.
+ * @property {number} metalness - Metalness of the head material, between 0.2 and 1.
+ * @property {number} roughness - Roughness of the head material, between 0.2 and 0.8.
+ * @property {Vec3} scale - Scale of the head model, each axis between 10 and 10.2.
+ * @property {Vec3} rotation - Euler rotation (XYZ order) of the head in radians, tilting and turning it slightly.
+ */
+export interface HeadDescription {
+  tint: string;
+  metalness: number;
+  roughness: number;
+  scale: Vec3;
+  rotation: Vec3;
+}
+
+/**
+ * Description of the lights of a head identicon.
+ *
+ * @interface HeadLighting
+ * @property {string} color - Color of the key and fill lights as a CSS color string.
+ * @property {number} intensity - Intensity of the key light, between 1.5 and 3.
+ */
+export interface HeadLighting {
+  color: string;
+  intensity: number;
+}
+
+/**
+ * Description of one primitive orbiting the head.
+ *
+ * @interface HeadPrimitive
+ * @property {HeadPrimitiveType} type - The geometry of the primitive.
+ * @property {string} color - The primitive color as a CSS color string.
+ * @property {number} angle - Position along the ring in radians.
+ * @property {number} radius - Distance from the ring's axis, between 3 and 5.
+ * @property {number} height - Offset along the ring's axis, between -0.5 and 0.5.
+ * @property {number} size - Uniform scale of the primitive, between 0.3 and 0.7.
+ * @property {Vec3} rotation - Euler rotation (XYZ order) of the primitive in radians.
+ */
+export interface HeadPrimitive {
+  type: HeadPrimitiveType;
+  color: string;
+  angle: number;
+  radius: number;
+  height: number;
+  size: number;
+  rotation: Vec3;
+}
+
+/**
+ * Full description of a head identicon.
+ *
+ * @interface HeadSpec
+ * @property {string} seed - The seed string the spec was built from.
+ * @property {boolean} [keyed] - Whether the hashes were derived with a secret key. The key itself is never part of the spec.
+ * @property {HeadDescription} head - The head model's tint, finish and pose.
+ * @property {HeadLighting} lighting - The hash-colored lighting.
+ * @property {Vec3} ringTilt - Euler rotation (XYZ order) of the ring of primitives in radians.
+ * @property {HeadPrimitive[]} primitives - The primitives orbiting the head.
+ * @property {HeadAccessory} accessory - The accessory worn on top of the head.
+ * @property {string} accessoryColor - Color of the accessory as a CSS color string.
+ */
+export interface HeadSpec {
+  seed: string;
+  keyed?: boolean;
+  head: HeadDescription;
+  lighting: HeadLighting;
+  ringTilt: Vec3;
+  primitives: HeadPrimitive[];
+  accessory: HeadAccessory;
+  accessoryColor: string;
+}
+
+/**
+ * Picks an entry of a list from one byte of a hash.
+ *
+ * @param {readonly T[]} list - The list to pick from.
+ * @param {string} hash - The hash string.
+ * @param {number} index - The index of the byte to use.
+ * @returns {T} The picked entry.
+ */
+const pick = <T,>(list: readonly T[], hash: string, index: number): T =>
+  list[parseInt(hash.slice(index * 2, index * 2 + 2), 16) % list.length];
+
+/**
+ * Builds the description of one primitive of the ring from its hash.
+ *
+ * Byte 0 selects the geometry, byte 1 the hue, bytes 2-3 the orbit radius and height, byte 4 the size, bytes 5-7 the
+ * rotation and byte 8 shifts the primitive within its slot of the ring.
+ *
+ * @param {string} hash - The hash derived for the primitive.
+ * @param {number} slot - The index of the primitive within the ring.
+ * @param {number} count - The number of primitives in the ring.
+ * @param {number} baseRadius - The ring's radius.
+ * @returns {HeadPrimitive} The primitive description.
+ */
+const buildPrimitive = (hash: string, slot: number, count: number, baseRadius: number): HeadPrimitive => ({
+  type: pick(HEAD_PRIMITIVE_TYPES, hash, 0),
+  color: getColorFromHash(hash, 1),
+  angle: ((slot + getRandomValue(hash, 8, 0.6) - 0.3) / count) * Math.PI * 2,
+  radius: baseRadius + getRandomValue(hash, 2, 1.2) - 0.6,
+  height: getRandomValue(hash, 3, 1) - 0.5,
+  size: 0.3 + getRandomValue(hash, 4, 0.4),
+  rotation: [
+    getRandomValue(hash, 5, Math.PI * 2),
+    getRandomValue(hash, 6, Math.PI * 2),
+    getRandomValue(hash, 7, Math.PI * 2),
+  ],
+});
+
+/**
+ * Builds the plain JSON description of the head identicon for a seed.
+ *
+ * The portrait hash (shape index 0) lays out its bytes as follows: byte 0-2 the head tint's hue, saturation and
+ * lightness, bytes 3-5 the head scale, bytes 6-8 its rotation, bytes 9-10 its metalness and roughness, byte 11 the number
+ * of primitives, bytes 12-14 the ring tilt and radius, byte 15 the light hue, byte 16 the light intensity, byte 17 the
+ * accessory and byte 18 its hue. Primitive i is built from shape index i + 1.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @param {string} [key] - Secret key for HMAC-derived hashes, as for identicon specs. Must only be used server-side.
+ * @returns {HeadSpec} The head identicon description.
+ */
+export const buildHeadSpec = (seed: string, key?: string): HeadSpec => {
+  const hash = deriveShapeHash(seed, 0, { namespace: HEAD_NAMESPACE, key });
+  const degree = Math.PI / 180;
+
+  // Byte value 255 would land one past the range, so it is clamped onto the largest count
+  const count = Math.min(MAX_HEAD_PRIMITIVES, MIN_HEAD_PRIMITIVES + Math.floor(getRandomValue(hash, 11, MAX_HEAD_PRIMITIVES - MIN_HEAD_PRIMITIVES + 1)));
+  const ringRadius = 3.5 + getRandomValue(hash, 14, 1);
+
+  return {
+    seed,
+    ...(key !== undefined && { keyed: true }),
+    head: {
+      tint: `hsl(${getRandomValue(hash, 0, 360)}, ${40 + getRandomValue(hash, 1, 40)}%, ${40 + getRandomValue(hash, 2, 25)}%)`,
+      metalness: 0.2 + getRandomValue(hash, 9, 0.8),
+      roughness: 0.2 + getRandomValue(hash, 10, 0.6),
+      scale: [
+        10 + getRandomValue(hash, 3, 0.2),
+        10 + getRandomValue(hash, 4, 0.2),
+        10 + getRandomValue(hash, 5, 0.2),
+      ],
+      rotation: [
+        (getRandomValue(hash, 6, 30) - 15) * degree,
+        (getRandomValue(hash, 7, 50) - 25) * degree,
+        (getRandomValue(hash, 8, 20) - 10) * degree,
+      ],
+    },
+    lighting: {
+      color: `hsl(${getRandomValue(hash, 15, 360)}, 100%, 60%)`,
+      intensity: 1.5 + getRandomValue(hash, 16, 1.5),
+    },
+    ringTilt: [
+      (getRandomValue(hash, 12, 60) - 30) * degree,
+      0,
+      (getRandomValue(hash, 13, 60) - 30) * degree,
+    ],
+    primitives: Array.from({ length: count }, (_, i) =>
+      buildPrimitive(deriveShapeHash(seed, i + 1, { namespace: HEAD_NAMESPACE, key }), i, count, ringRadius)),
+    accessory: pick(HEAD_ACCESSORIES, hash, 17),
+    accessoryColor: getColorFromHash(hash, 18),
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * i/[seed]/page.tsx
+ *
+ * This file contains the permalink page of an identicon. It shows the identicon generator with the seed from the path,
+ * while the query parameters restore the rest of the view: the style and its options, the theme, the framing, the
+ * rotation, the effects and the download size (see permalink.tsx). Link previews show an Open Graph image of the
+ * identicon rendered by the `/api/identicon/[seed]` route, and sites that support oEmbed find the page's description at
+ * `/api/oembed`.
+ * In keyed mode, the path holds an identicon ID issued by the server instead of the seed.
+ */
+
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import IdenticonGenerator from '../../IdenticonGenerator';
+import { IMAGE_STYLES, issueIdenticonIds, parseImageOptions, parseSpecOptions, requestOrigin } from '../../identiconServer';
+import { forumPosts } from '../../data';
+import { buildOEmbedUrl, buildPermalink, toSearchParams } from '../../permalink';
+
+// Width and height of the Open Graph image in pixels
+const OG_IMAGE_SIZE = 630;
+
+// Query parameters of the view that change the look of the identicon image
+const IMAGE_PARAMS = ['style', 'shapes', 'theme', 'framing', 'grid', 'padding'];
+
+/**
+ * Props of the permalink page
+ *
+ * @interface PermalinkPageProps
+ * @property {Object} params - The dynamic route parameters.
+ * @property {string} params.seed - The seed to show, or its identicon ID in keyed mode.
+ * @property {Record<string, string | string[] | undefined>} searchParams - The query parameters holding the view.
+ */
+interface PermalinkPageProps {
+  params: { seed: string };
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Reads the seed from the route parameters, which hold the path segment still percent-encoded.
+ *
+ * @param {PermalinkPageProps['params']} params - The dynamic route parameters.
+ * @returns {string} The seed string.
+ */
+const permalinkSeed = (params: PermalinkPageProps['params']) => decodeURIComponent(params.seed);
+
+/**
+ * Builds the query string of the Open Graph image from the view's query parameters.
+ *
+ * Styles the image route cannot render, such as the head style, are previewed with the geometric style. Invalid
+ * parameters would make the image route fail, so the preview falls back to the default look when any is invalid.
+ *
+ * @param {Record<string, string | string[] | undefined>} searchParams - The query parameters of the permalink.
+ * @returns {URLSearchParams} The query parameters of the image.
+ */
+const imageParams = (searchParams: Record<string, string | string[] | undefined>) => {
+  const params = new URLSearchParams();
+  IMAGE_PARAMS.forEach((key) => {
+    const value = searchParams[key];
+    if (typeof value === 'string') params.set(key, value);
+  });
+  if (!(IMAGE_STYLES as readonly (string | null)[]).includes(params.get('style'))) params.delete('style');
+
+  try {
+    parseSpecOptions(params);
+    parseImageOptions(params);
+  } catch {
+    IMAGE_PARAMS.forEach((key) => params.delete(key));
+  }
+
+  params.set('size', String(OG_IMAGE_SIZE));
+  params.set('background', 'ffffff');
+  return params;
+};
+
+/**
+ * Builds the metadata of a permalink, whose Open Graph image is the identicon of the seed.
+ *
+ * Link previews need absolute image URLs, so they are resolved against the host the page was requested from.
+ *
+ * @param {PermalinkPageProps} props - The route parameters and query parameters.
+ * @returns {Metadata} The page metadata.
+ */
+export const generateMetadata = ({ params, searchParams }: PermalinkPageProps): Metadata => {
+  const origin = requestOrigin(headers());
+  const seed = permalinkSeed(params);
+  const permalink = buildPermalink(origin, seed, toSearchParams(searchParams).toString());
+  const title = `Identicon for ${seed}`;
+  const image = {
+    url: `/api/identicon/${encodeURIComponent(seed)}?${imageParams(searchParams)}`,
+    width: OG_IMAGE_SIZE,
+    height: OG_IMAGE_SIZE,
+    alt: title,
+  };
+
+  return {
+    metadataBase: new URL(origin),
+    title,
+    description: `The identicon generated from "${seed}".`,
+    alternates: { types: { 'application/json+oembed': buildOEmbedUrl(origin, permalink) } },
+    openGraph: { title, images: [image] },
+    twitter: { card: 'summary', title, images: [image] },
+  };
+};
+
+/**
+ * Permalink Component
+ *
+ * @component
+ * @param {PermalinkPageProps} props - The route parameters and query parameters.
+ * @returns {JSX.Element} The rendered permalink page.
+ */
+export default function Permalink({ params }: PermalinkPageProps) {
+  return <IdenticonGenerator initialSeed={permalinkSeed(params)} identiconIds={issueIdenticonIds(forumPosts.map((post) => post.username))} />;
+}
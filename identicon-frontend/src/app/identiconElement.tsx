@@ -0,0 +1,173 @@
+/**
+ * identiconElement.tsx
+ *
+ * This file defines the `<identicon-3d>` custom element, which shows an identicon on any page, whatever framework it
+ * uses, by rendering the Identicon3D component into the element's shadow root. Attributes mirror the component's props
+ * and are read again whenever one changes, so the identicon follows them:
+ *
+ *   <identicon-3d seed="Jane" size="64" variant="geometric" shapes="12" effects="false"></identicon-3d>
+ *   const blob = await document.querySelector('identicon-3d').toBlob({ size: 512 });
+ *
+ * Style options, such as `shapes`, `accessories`, `grid` and `padding`, are attributes named after the option, and
+ * `theme` holds the JSON of an identicon theme. The style ID goes in the `variant` attribute, so `style` keeps holding
+ * inline CSS like on any other element. As an alias, `style` is read as the style ID when its value is one, e.g.
+ * `style="geometric"`, and `variant` is absent or invalid.
+ */
+
+import { createRef } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import Identicon3D, { Identicon3DHandle, Identicon3DProps } from './Identicon3D';
+import { IdenticonSpec } from './identiconSpec';
+import { DEFAULT_STYLE_ID, IDENTICON_STYLES, isIdenticonStyleId, parseStyleOptions } from './identiconStyles';
+import { ExportOptions } from './exportRenderer';
+import { DEFAULT_FRAMING_MODE } from './framing';
+import { parseFramingParam, parseThemeParam } from './permalink';
+
+// Tag name the element is registered under unless another one is given
+export const IDENTICON_ELEMENT_TAG = 'identicon-3d';
+
+// Width and height of the element in pixels when no size is set
+export const DEFAULT_ELEMENT_SIZE = 64;
+
+// Attributes mapped to props of Identicon3D, followed by the option keys of every style
+export const IDENTICON_ELEMENT_ATTRIBUTES = Array.from(new Set([
+  'seed', 'size', 'variant', 'style', 'framing', 'theme', 'effects', 'interactive', 'rotate',
+  ...Object.values(IDENTICON_STYLES).flatMap((style) => style.options.map((option) => option.key)),
+]));
+
+// Layout of the shadow root. The page's utility classes do not reach it, so the few the views rely on are defined here.
+const ELEMENT_STYLES = `
+  :host { display: inline-block; vertical-align: middle; }
+  .w-full { width: 100%; }
+  .h-full { height: 100%; }
+  .w-80 { width: 20rem; }
+  .h-80 { height: 20rem; }
+  .flex { display: flex; }
+  .flex-col { flex-direction: column; }
+  .items-center { align-items: center; }
+  .justify-center { justify-content: center; }
+  .mt-2 { margin-top: 0.5rem; }
+  .ml-2 { margin-left: 0.5rem; }
+`;
+
+/**
+ * The `<identicon-3d>` element.
+ *
+ * @interface IdenticonElement
+ * @property {function} toBlob - Captures the identicon as an image, like the toBlob of Identicon3D's handle. Rejects when nothing has been drawn yet.
+ * @property {IdenticonSpec | null} spec - The identicon spec shown, for styles described by one, or null.
+ */
+export interface IdenticonElement extends HTMLElement {
+  toBlob: (options?: Partial<ExportOptions>) => Promise<Blob>;
+  readonly spec: IdenticonSpec | null;
+}
+
+/**
+ * Reads a boolean attribute or query parameter, which is set by its presence unless its value is "false".
+ *
+ * @param {string | null} value - The value, or null when it is absent.
+ * @param {boolean} fallback - Value when it is absent.
+ * @returns {boolean} The flag.
+ */
+const parseFlag = (value: string | null, fallback: boolean) => (value === null ? fallback : value !== 'false');
+
+/**
+ * Reads the props of Identicon3D from named values, such as the attributes of an element or the query parameters of
+ * an embed, named as in IDENTICON_ELEMENT_ATTRIBUTES. Missing and invalid values fall back to the defaults of the
+ * component, and to DEFAULT_ELEMENT_SIZE for the size.
+ *
+ * @param {function} read - Returns the value of a name, or null when it is absent.
+ * @returns {Identicon3DProps} The props.
+ */
+export const readIdenticonProps = (read: (name: string) => string | null): Identicon3DProps => {
+  const rawSize = read('size')?.trim() || String(DEFAULT_ELEMENT_SIZE);
+  // `style` only names the style when its value is a style ID, since it otherwise holds inline CSS
+  const style = [read('variant'), read('style')].find(isIdenticonStyleId) ?? DEFAULT_STYLE_ID;
+  const values = Object.fromEntries(IDENTICON_ELEMENT_ATTRIBUTES.map((name) => [name, read(name)]));
+
+  return {
+    seed: read('seed') ?? '',
+    size: /^\d+(\.\d+)?$/.test(rawSize) ? Number(rawSize) : rawSize,
+    style,
+    // Only the options that are set, so the others follow the theme and the style's defaults
+    options: parseStyleOptions(IDENTICON_STYLES[style], values),
+    framing: parseFramingParam(read('framing') ?? '') ?? DEFAULT_FRAMING_MODE,
+    theme: parseThemeParam(read('theme') ?? ''),
+    effects: parseFlag(read('effects'), true),
+    interactive: parseFlag(read('interactive'), true),
+    rotate: parseFlag(read('rotate'), false),
+  };
+};
+
+/**
+ * Registers the `<identicon-3d>` element, unless an element is already registered under the tag name. Only call this
+ * in the browser.
+ *
+ * The element dispatches a `ready` event whenever the identicon of a new seed has been drawn and can be captured.
+ *
+ * @param {string} [tagName] - The tag name to register the element under. Defaults to IDENTICON_ELEMENT_TAG.
+ * @returns {CustomElementConstructor} The class of the element.
+ */
+export const defineIdenticonElement = (tagName: string = IDENTICON_ELEMENT_TAG): CustomElementConstructor => {
+  const registered = customElements.get(tagName);
+  if (registered) return registered;
+
+  class IdenticonElementImpl extends HTMLElement implements IdenticonElement {
+    static get observedAttributes() {
+      return IDENTICON_ELEMENT_ATTRIBUTES;
+    }
+
+    private root: Root | null = null;
+    private handle = createRef<Identicon3DHandle>();
+
+    get spec() {
+      return this.handle.current?.spec ?? null;
+    }
+
+    toBlob(options?: Partial<ExportOptions>) {
+      if (!this.handle.current) {
+        return Promise.reject(new Error('The identicon has not been drawn yet'));
+      }
+      return this.handle.current.toBlob(options);
+    }
+
+    connectedCallback() {
+      if (!this.root) {
+        const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+        shadow.replaceChildren();
+        const style = document.createElement('style');
+        style.textContent = ELEMENT_STYLES;
+        const container = document.createElement('div');
+        shadow.append(style, container);
+        this.root = createRoot(container);
+      }
+      this.render();
+    }
+
+    disconnectedCallback() {
+      // An element being moved is disconnected and reconnected in the same task, and keeps its identicon
+      queueMicrotask(() => {
+        if (this.isConnected || !this.root) return;
+        this.root.unmount();
+        this.root = null;
+      });
+    }
+
+    attributeChangedCallback() {
+      this.render();
+    }
+
+    private render() {
+      this.root?.render(
+        <Identicon3D
+          {...readIdenticonProps((name) => this.getAttribute(name))}
+          ref={this.handle}
+          onReady={() => this.dispatchEvent(new Event('ready'))}
+        />
+      );
+    }
+  }
+
+  customElements.define(tagName, IdenticonElementImpl);
+  return IdenticonElementImpl;
+};
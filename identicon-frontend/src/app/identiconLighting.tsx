@@ -0,0 +1,86 @@
+/**
+ * identiconLighting.tsx
+ *
+ * This file builds the Three.js lights and environment of an identicon spec. Version 3 specs describe a hash-driven
+ * light rig: an ambient light, key, fill and rim lights with their own colors and directions, and a sky-to-ground
+ * gradient that is turned into a small procedural environment map for metallic and glass shapes to reflect. Older
+ * specs are lit like the original identicons, by a strong white ambient light and a distant point light.
+ * It only depends on Three.js core classes, which work without a WebGL context.
+ */
+
+import {
+  AmbientLight,
+  Color,
+  DataTexture,
+  DirectionalLight,
+  EquirectangularReflectionMapping,
+  Light,
+  LinearFilter,
+  PointLight,
+  SRGBColorSpace,
+} from 'three';
+import { LightRig } from './identiconSpec';
+import { AMBIENT_LIGHT_INTENSITY, POINT_LIGHT_POSITION } from './identiconProjection';
+
+// Distance of the directional lights from the center of the scene; only their direction matters
+const LIGHT_DISTANCE = 10;
+
+// Width and height of the environment map. The gradient is smooth, so a tiny texture is enough
+const ENVIRONMENT_WIDTH = 64;
+const ENVIRONMENT_HEIGHT = 32;
+
+/**
+ * Creates the lights of an identicon scene.
+ *
+ * @param {LightRig} [lighting] - The light rig of the spec, or undefined for the original lights.
+ * @returns {Light[]} New lights, to be added to the scene.
+ */
+export const createIdenticonLights = (lighting?: LightRig): Light[] => {
+  if (!lighting) {
+    const pointLight = new PointLight(0xffffff, 1);
+    pointLight.position.set(...POINT_LIGHT_POSITION);
+    return [new AmbientLight(0xffffff, AMBIENT_LIGHT_INTENSITY), pointLight];
+  }
+
+  const { ambient, key, fill, rim } = lighting;
+  return [
+    new AmbientLight(ambient.color, ambient.intensity),
+    ...[key, fill, rim].map(({ color, intensity, direction }) => {
+      // Directional lights shine towards their target, which stays at the origin
+      const light = new DirectionalLight(color, intensity);
+      light.position.set(...direction).multiplyScalar(LIGHT_DISTANCE);
+      return light;
+    }),
+  ];
+};
+
+/**
+ * Creates the procedural environment map of a light rig: an equirectangular gradient from the ground color below the
+ * horizon to the sky color above it, blended at the horizon.
+ *
+ * @param {LightRig} lighting - The light rig of the spec.
+ * @returns {DataTexture} A new texture, owned by the caller, to be set as the scene's environment.
+ */
+export const createIdenticonEnvironment = ({ environment }: LightRig): DataTexture => {
+  const sky = new Color(environment.sky);
+  const ground = new Color(environment.ground);
+  const horizon = sky.clone().lerp(ground, 0.5);
+
+  // Rows go from the bottom of the texture, straight down, to the top, straight up
+  const data = new Uint8Array(ENVIRONMENT_WIDTH * ENVIRONMENT_HEIGHT * 4);
+  for (let y = 0; y < ENVIRONMENT_HEIGHT; y++) {
+    const height = Math.sin(((y + 0.5) / ENVIRONMENT_HEIGHT - 0.5) * Math.PI);
+    const hex = horizon.clone().lerp(height > 0 ? sky : ground, Math.sqrt(Math.abs(height))).getHex();
+    for (let x = 0; x < ENVIRONMENT_WIDTH; x++) {
+      data.set([(hex >> 16) & 255, (hex >> 8) & 255, hex & 255, 255], (y * ENVIRONMENT_WIDTH + x) * 4);
+    }
+  }
+
+  const texture = new DataTexture(data, ENVIRONMENT_WIDTH, ENVIRONMENT_HEIGHT);
+  texture.colorSpace = SRGBColorSpace;
+  texture.mapping = EquirectangularReflectionMapping;
+  texture.magFilter = LinearFilter;
+  texture.minFilter = LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
@@ -0,0 +1,62 @@
+/**
+ * identiconMaterials.tsx
+ *
+ * This file defines the Three.js material of each shape of an identicon spec. Shapes of version 3 specs are made of
+ * the material family the hash picked for them, with its roughness, metalness and glow; older shapes keep the plain
+ * standard material of the original identicons. The live scene, the offscreen renderers and the model exporter all
+ * build their materials here, so every output shows the same surfaces.
+ * It only depends on Three.js core classes, which work without a WebGL context.
+ */
+
+import { Material, MeshPhysicalMaterial, MeshStandardMaterial, MeshToonMaterial } from 'three';
+import { IdenticonShape } from './identiconSpec';
+
+// Share of the light passing through glass shapes, which keep some body so they still show on plain backgrounds
+const GLASS_TRANSMISSION = 0.6;
+
+/**
+ * Creates the Three.js material of a shape.
+ *
+ * - "standard" and "metallic" shapes use MeshStandardMaterial with their roughness and metalness.
+ * - "glass" shapes use MeshPhysicalMaterial with a clear coat and partial transmission.
+ * - "toon" shapes use MeshToonMaterial.
+ * - "emissive" shapes use MeshStandardMaterial glowing in their own color.
+ *
+ * Every material keeps the shape's color, opacity and wireframe flag.
+ *
+ * @param {IdenticonShape} shape - The shape description.
+ * @returns {Material} A new material, owned by the caller.
+ */
+export const createShapeMaterial = (shape: IdenticonShape): Material => {
+  const { color, opacity, wireframe, material } = shape;
+  const base = { color, wireframe, transparent: true, opacity };
+  if (!material) {
+    return new MeshStandardMaterial(base);
+  }
+
+  const { family, roughness, metalness, emissiveIntensity } = material;
+  switch (family) {
+    case 'glass':
+      return new MeshPhysicalMaterial({
+        ...base,
+        roughness,
+        metalness,
+        clearcoat: 1,
+        clearcoatRoughness: roughness,
+        transmission: GLASS_TRANSMISSION,
+        thickness: 1,
+        ior: 1.5,
+      });
+    case 'toon':
+      return new MeshToonMaterial(base);
+    case 'standard':
+    case 'metallic':
+    case 'emissive':
+      return new MeshStandardMaterial({
+        ...base,
+        roughness,
+        metalness,
+        ...(family === 'emissive' && { emissive: color, emissiveIntensity }),
+      });
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * identiconPalette.test.tsx
+ *
+ * Tests of the palette strategies: every color picked must come from the palette's strategy and reach the palette's
+ * minimum contrast against its background, and invalid palettes, such as brand palettes of anything but hex colors,
+ * must be rejected.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Color } from 'three';
+import {
+  contrastRatio,
+  CURATED_PALETTE_IDS,
+  CURATED_PALETTES,
+  DEFAULT_PALETTE,
+  getPaletteColor,
+  MAX_MIN_CONTRAST,
+  MAX_PALETTE_COLORS,
+  PaletteSettings,
+  validatePalette,
+} from './identiconPalette';
+
+// Every value one byte of the hash can give
+const HASH_VALUES = Array.from({ length: 256 }, (_, byte) => byte / 255);
+
+// Palettes of every strategy, including a brand palette whose colors are all close to white
+const PALETTES: [string, PaletteSettings][] = [
+  ['spectrum', DEFAULT_PALETTE],
+  ...CURATED_PALETTE_IDS.map((curated): [string, PaletteSettings] => [`curated ${curated}`, { ...DEFAULT_PALETTE, mode: 'curated', curated }]),
+  ['hues', { ...DEFAULT_PALETTE, mode: 'hues', hues: [30, 200], lightness: 80 }],
+  ['brand', { ...DEFAULT_PALETTE, mode: 'brand', brand: ['#ffffff', '#fafafa', '#ef4444'] }],
+];
+
+/**
+ * Writes any CSS color the palettes produce, hex or HSL, as a six-digit hex color.
+ *
+ * @param {string} color - The CSS color.
+ * @returns {string} The hex color.
+ */
+const toHex = (color: string) => `#${new Color(color).getHexString()}`;
+
+describe('getPaletteColor', () => {
+  it('reproduces the colors of the original identicons with the default palette', () => {
+    expect(getPaletteColor(0.5, DEFAULT_PALETTE)).toBe('hsl(180, 70%, 50%)');
+  });
+
+  describe.each(PALETTES)('with the %s strategy', (_, palette) => {
+    it.each(['#ffffff', '#000000', '#1e293b', '#808080'])('reaches the minimum contrast against %s', (background) => {
+      [3, MAX_MIN_CONTRAST].forEach((minContrast) => {
+        HASH_VALUES.forEach((value) => {
+          const color = toHex(getPaletteColor(value, { ...palette, background, minContrast }));
+          // Colors picked as HSL are only rounded to 8-bit channels here, hence the small tolerance
+          expect(contrastRatio(color, background), `${color} for ${value}`).toBeGreaterThanOrEqual(minContrast - 0.01);
+        });
+      });
+    });
+  });
+
+  it('picks from the colors of curated and brand palettes', () => {
+    CURATED_PALETTE_IDS.forEach((curated) => {
+      const colors = new Set(HASH_VALUES.map((value) => getPaletteColor(value, { ...DEFAULT_PALETTE, mode: 'curated', curated })));
+      expect(Array.from(colors).sort()).toEqual([...CURATED_PALETTES[curated].colors].sort());
+    });
+
+    const brand = ['#ef4444', '#3b82f6'];
+    expect(new Set(HASH_VALUES.map((value) => getPaletteColor(value, { ...DEFAULT_PALETTE, mode: 'brand', brand })))).toEqual(new Set(brand));
+  });
+
+  it('picks from the hues of a hue set', () => {
+    const colors = new Set(HASH_VALUES.map((value) => getPaletteColor(value, { ...DEFAULT_PALETTE, mode: 'hues', hues: [30, 200] })));
+    expect(colors).toEqual(new Set(['hsl(30, 70%, 50%)', 'hsl(200, 70%, 50%)']));
+  });
+});
+
+describe('validatePalette', () => {
+  it('accepts the default palette', () => {
+    expect(() => validatePalette(DEFAULT_PALETTE)).not.toThrow();
+  });
+
+  it.each<[string, Partial<PaletteSettings>, string]>([
+    ['no brand colors', { brand: [] }, 'brand colors'],
+    ['brand colors that are not hex colors', { brand: ['#ef4444', 'red'] }, 'brand colors'],
+    ['malformed hex brand colors', { brand: ['#ef44'] }, 'brand colors'],
+    ['too many brand colors', { brand: Array(MAX_PALETTE_COLORS + 1).fill('#ef4444') }, 'brand colors'],
+    ['hues out of range', { hues: [30, 361] }, 'hues'],
+    ['an unknown mode', { mode: 'rainbow' as PaletteSettings['mode'] }, 'mode'],
+    ['an unknown curated palette', { curated: 'viridis' as PaletteSettings['curated'] }, 'Curated palette'],
+    ['a lightness out of range', { lightness: 120 }, 'lightness'],
+    ['a background that is not a hex color', { background: 'white' }, 'background'],
+    ['a minimum contrast out of range', { minContrast: MAX_MIN_CONTRAST + 1 }, 'minimum contrast'],
+  ])('rejects %s', (_, changes, message) => {
+    expect(() => validatePalette({ ...DEFAULT_PALETTE, ...changes })).toThrow(message);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * identiconPalette.tsx
+ *
+ * This file defines the palettes identicon colors are picked from. The original identicons map one byte of the hash to
+ * any hue, which gives many identicons that look alike to users with deuteranopia or protanopia, and some hues that
+ * vanish against the page. A palette therefore picks colors with one of several strategies:
+ *
+ * - "spectrum": any hue at a fixed saturation and lightness, like the original identicons.
+ * - "curated": one color of a curated color-blind-safe palette, such as Okabe-Ito.
+ * - "hues": one hue of a constrained set, at a fixed saturation and lightness.
+ * - "brand": one color of a user-supplied brand palette.
+ *
+ * Whatever the strategy, colors can be guaranteed a minimum WCAG contrast ratio against a background, by moving their
+ * lightness as little as needed. Picks depend only on the hash byte, so colors stay deterministic from the seed.
+ * Like identiconSpec.tsx, this file has no dependency on React or Three.js.
+ */
+
+/**
+ * The strategies a palette picks colors with.
+ */
+export const PALETTE_MODES = ['spectrum', 'curated', 'hues', 'brand'] as const;
+
+export type PaletteMode = typeof PALETTE_MODES[number];
+
+/**
+ * The curated palettes, all distinguishable with the common forms of color blindness.
+ */
+export const CURATED_PALETTE_IDS = ['okabeIto', 'tolBright', 'ibm'] as const;
+
+export type CuratedPaletteId = typeof CURATED_PALETTE_IDS[number];
+
+/**
+ * A curated palette.
+ *
+ * @interface CuratedPalette
+ * @property {string} name - Human-readable name shown in the designer.
+ * @property {readonly string[]} colors - The colors, as hex colors.
+ */
+export interface CuratedPalette {
+  name: string;
+  colors: readonly string[];
+}
+
+// Okabe-Ito without black, Paul Tol's bright scheme and the IBM Design Library's color-blind-safe palette
+export const CURATED_PALETTES: Record<CuratedPaletteId, CuratedPalette> = {
+  okabeIto: { name: 'Okabe-Ito', colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7'] },
+  tolBright: { name: 'Tol Bright', colors: ['#4477aa', '#ee6677', '#228833', '#ccbb44', '#66ccee', '#aa3377', '#bbbbbb'] },
+  ibm: { name: 'IBM', colors: ['#648fff', '#785ef0', '#dc267f', '#fe6100', '#ffb000'] },
+};
+
+// Hues along the blue-orange axis, which deuteranopia and protanopia leave intact
+export const DEFAULT_SAFE_HUES = [30, 50, 200, 230] as const;
+
+// The site's button colors, a starting point for brand palettes
+export const DEFAULT_BRAND_COLORS = ['#ef4444', '#3b82f6'] as const;
+
+// Most hues or brand colors a palette may list
+export const MAX_PALETTE_COLORS = 16;
+
+// Bounds of the minimum contrast ratio. Black or white reaches 4.5:1 (WCAG AA) against any background, so every
+// color can be brought to a ratio up to MAX_MIN_CONTRAST; a ratio of 1 turns the check off.
+export const MIN_MIN_CONTRAST = 1;
+export const MAX_MIN_CONTRAST = 4.5;
+
+/**
+ * The colors shapes are picked from.
+ *
+ * @interface PaletteSettings
+ * @property {PaletteMode} mode - The strategy colors are picked with.
+ * @property {number} saturation - HSL saturation of spectrum and hue colors in percent, between 0 and 100.
+ * @property {number} lightness - HSL lightness of spectrum and hue colors in percent, between 0 and 100.
+ * @property {CuratedPaletteId} curated - The palette curated colors are picked from.
+ * @property {number[]} hues - The hues hue colors are picked from, in degrees between 0 and 360.
+ * @property {string[]} brand - The hex colors brand colors are picked from.
+ * @property {string} background - The hex color colors must contrast with.
+ * @property {number} minContrast - Smallest WCAG contrast ratio of a color against the background, between MIN_MIN_CONTRAST and MAX_MIN_CONTRAST.
+ */
+export interface PaletteSettings {
+  mode: PaletteMode;
+  saturation: number;
+  lightness: number;
+  curated: CuratedPaletteId;
+  hues: number[];
+  brand: string[];
+  background: string;
+  minContrast: number;
+}
+
+// Palette of the original identicons
+export const DEFAULT_PALETTE: PaletteSettings = {
+  mode: 'spectrum',
+  saturation: 70,
+  lightness: 50,
+  curated: 'okabeIto',
+  hues: [...DEFAULT_SAFE_HUES],
+  brand: [...DEFAULT_BRAND_COLORS],
+  background: '#ffffff',
+  minContrast: MIN_MIN_CONTRAST,
+};
+
+type Rgb = [number, number, number];
+
+/**
+ * Checks whether a value is a hex color such as "#1e293b" or "#fff".
+ *
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether the value is a hex color.
+ */
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+/**
+ * Converts a hex color to sRGB channels.
+ *
+ * @param {string} hex - The hex color, with three or six digits.
+ * @returns {Rgb} The channels between 0 and 1.
+ */
+const hexToRgb = (hex: string): Rgb => {
+  const digits = hex.length === 4 ? hex.slice(1).split('').map((digit) => digit + digit).join('') : hex.slice(1);
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255) as Rgb;
+};
+
+/**
+ * Converts sRGB channels to a six-digit hex color.
+ *
+ * @param {Rgb} rgb - The channels between 0 and 1.
+ * @returns {string} The hex color.
+ */
+const rgbToHex = (rgb: Rgb) => `#${rgb.map((channel) => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Writes a hex color with six lowercase digits, as color inputs expect.
+ *
+ * @param {string} hex - The hex color, with three or six digits.
+ * @returns {string} The six-digit hex color.
+ */
+export const normalizeHexColor = (hex: string): string => rgbToHex(hexToRgb(hex));
+
+/**
+ * Converts an HSL color to sRGB channels.
+ *
+ * @param {number} hue - Hue in degrees.
+ * @param {number} saturation - Saturation in percent.
+ * @param {number} lightness - Lightness in percent.
+ * @returns {Rgb} The channels between 0 and 1.
+ */
+const hslToRgb = (hue: number, saturation: number, lightness: number): Rgb => {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const chroma = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+/**
+ * Converts sRGB channels to an HSL color.
+ *
+ * @param {Rgb} rgb - The channels between 0 and 1.
+ * @returns {[number, number, number]} The hue in degrees, and the saturation and lightness in percent.
+ */
+const rgbToHsl = ([r, g, b]: Rgb): [number, number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (!delta) return [0, 0, l * 100];
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  const sector = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return [(sector * 60 + 360) % 360, s * 100, l * 100];
+};
+
+/**
+ * Computes the WCAG relative luminance of a color.
+ *
+ * @param {Rgb} rgb - The sRGB channels between 0 and 1.
+ * @returns {number} The luminance, between 0 for black and 1 for white.
+ */
+const relativeLuminance = (rgb: Rgb) => {
+  const [r, g, b] = rgb.map((channel) => (channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Computes the WCAG contrast ratio of two colors.
+ *
+ * @param {Rgb} a - The sRGB channels of one color.
+ * @param {Rgb} b - The sRGB channels of the other color.
+ * @returns {number} The ratio, between 1 and 21.
+ */
+const rgbContrast = (a: Rgb, b: Rgb) => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * Computes the WCAG contrast ratio of two hex colors.
+ *
+ * @param {string} a - One hex color.
+ * @param {string} b - The other hex color.
+ * @returns {number} The ratio, between 1 for equal luminance and 21 for black on white.
+ */
+export const contrastRatio = (a: string, b: string): number => rgbContrast(hexToRgb(a), hexToRgb(b));
+
+/**
+ * Moves the lightness of a color as little as needed for it to reach a contrast ratio against a background.
+ *
+ * Lightness and luminance grow together, so the closest passing lightness is found by bisection, separately towards
+ * black and towards white. At most MAX_MIN_CONTRAST is asked for, so black or white, and thus one direction, passes.
+ *
+ * @param {Rgb} rgb - The color.
+ * @param {Rgb} background - The background.
+ * @param {number} minContrast - The contrast ratio to reach.
+ * @returns {Rgb} The color reaching the ratio, rounded to 8-bit channels.
+ */
+const ensureContrast = (rgb: Rgb, background: Rgb, minContrast: number): Rgb => {
+  const [hue, saturation, lightness] = rgbToHsl(rgb);
+  const at = (l: number) => hexToRgb(rgbToHex(hslToRgb(hue, saturation, l)));
+  const passes = (l: number) => rgbContrast(at(l), background) >= minContrast;
+
+  const candidates = [0, 100].filter(passes).map((target) => {
+    // Bisect between the failing lightness of the color and the passing target
+    let [failing, passing] = [lightness, target];
+    for (let i = 0; i < 24; i++) {
+      const middle = (failing + passing) / 2;
+      if (passes(middle)) passing = middle; else failing = middle;
+    }
+    return passing;
+  });
+  const closest = candidates.reduce((best, l) => (Math.abs(l - lightness) < Math.abs(best - lightness) ? l : best));
+  return at(closest);
+};
+
+/**
+ * Picks an item of a list from a value of the hash.
+ *
+ * @param {readonly T[]} items - The items, at least one.
+ * @param {number} value - The value of the hash, between 0 and 1.
+ * @returns {T} The item.
+ */
+const pick = <T,>(items: readonly T[], value: number): T => items[Math.min(items.length - 1, Math.floor(value * items.length))];
+
+/**
+ * Picks the color of a value of the hash from a palette.
+ *
+ * With DEFAULT_PALETTE, the color is exactly that of the original identicons, `hsl(<value × 360>, 70%, 50%)`. Colors
+ * already reaching the palette's minimum contrast are returned as picked; others are returned as adjusted hex colors.
+ *
+ * @param {number} value - The value of the hash, between 0 and 1.
+ * @param {PaletteSettings} palette - The palette.
+ * @returns {string} The color as a CSS color string.
+ */
+export const getPaletteColor = (value: number, palette: PaletteSettings): string => {
+  const { mode, saturation, lightness, curated, hues, brand, background, minContrast } = palette;
+
+  let color: string;
+  let rgb: Rgb;
+  if (mode === 'curated' || mode === 'brand') {
+    color = pick(mode === 'curated' ? CURATED_PALETTES[curated].colors : brand, value);
+    rgb = hexToRgb(color);
+  } else {
+    const hue = mode === 'hues' ? pick(hues, value) : value * 360;
+    color = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+    rgb = hslToRgb(hue, saturation, lightness);
+  }
+
+  const backgroundRgb = hexToRgb(background);
+  if (minContrast <= MIN_MIN_CONTRAST || rgbContrast(rgb, backgroundRgb) >= minContrast) {
+    return color;
+  }
+  return rgbToHex(ensureContrast(rgb, backgroundRgb, minContrast));
+};
+
+/**
+ * Checks every setting of a palette, such as one read from JSON, throwing an Error naming the first invalid setting.
+ *
+ * @param {PaletteSettings} palette - The palette.
+ */
+export const validatePalette = ({ mode, saturation, lightness, curated, hues, brand, background, minContrast }: PaletteSettings) => {
+  if (!PALETTE_MODES.includes(mode)) {
+    throw new Error(`Palette mode must be one of ${PALETTE_MODES.join(', ')}`);
+  }
+  if ([saturation, lightness].some((percent) => !Number.isFinite(percent) || percent < 0 || percent > 100)) {
+    throw new Error('Palette saturation and lightness must be between 0 and 100');
+  }
+  if (!CURATED_PALETTE_IDS.includes(curated)) {
+    throw new Error(`Curated palette must be one of ${CURATED_PALETTE_IDS.join(', ')}`);
+  }
+  if (!Array.isArray(hues) || !hues.length || hues.length > MAX_PALETTE_COLORS || hues.some((hue) => !Number.isFinite(hue) || hue < 0 || hue > 360)) {
+    throw new Error(`Palette hues must be 1 to ${MAX_PALETTE_COLORS} hues between 0 and 360`);
+  }
+  if (!Array.isArray(brand) || !brand.length || brand.length > MAX_PALETTE_COLORS || !brand.every(isHexColor)) {
+    throw new Error(`Palette brand colors must be 1 to ${MAX_PALETTE_COLORS} hex colors`);
+  }
+  if (!isHexColor(background)) {
+    throw new Error('Palette background must be a hex color');
+  }
+  if (!Number.isFinite(minContrast) || minContrast < MIN_MIN_CONTRAST || minContrast > MAX_MIN_CONTRAST) {
+    throw new Error(`Palette minimum contrast must be between ${MIN_MIN_CONTRAST} and ${MAX_MIN_CONTRAST}`);
+  }
+};
@@ -0,0 +1,208 @@
+/**
+ * identiconProjection.tsx
+ *
+ * This file projects an identicon spec to 2D with the same camera, geometry and lighting as the live scene, without
+ * needing a WebGL context. The result is a list of shapes made of flat triangles or lines, sorted back to front, which
+ * the software and SVG renderers draw with the painter's algorithm.
+ *
+ * Lighting follows the live scene: for specs without a light rig, the ambient light (intensity 3.5) dominates and the
+ * point light at [10, 10, 10] is too far away to contribute visibly. Shapes of version 3 specs are shaded with their
+ * material under the spec's light rig, approximated with one color per shape (see shadeShape). The effect composer
+ * disables tone mapping, so none is applied here either. Post-processing effects such as Bloom and Chromatic
+ * Aberration are not reproduced.
+ */
+
+import { Color, Euler, Matrix4, PerspectiveCamera, Quaternion, Vector3 } from 'three';
+import { IdenticonShape, IdenticonSpec, LightRig, Vec3 } from './identiconSpec';
+import { createGeometry } from './geometries';
+import type { IdenticonFraming } from './framing';
+
+// Camera used by the identicon scenes. Framing moves it along the same direction, see framing.tsx
+export const CAMERA_POSITION: Vec3 = [5, 5, 5];
+export const CAMERA_FOV = 35;
+
+// Lights of the identicon scenes
+export const AMBIENT_LIGHT_INTENSITY = 3.5;
+export const POINT_LIGHT_POSITION: Vec3 = [10, 10, 10];
+
+/**
+ * A flat primitive of a projected shape: a filled triangle, or an edge for wireframe shapes.
+ *
+ * @interface ProjectedPrimitive
+ * @property {[number, number][]} points - Points in normalized image coordinates, (0, 0) top left and (1, 1) bottom right.
+ * @property {number} depth - Distance from the camera, used to sort the primitives.
+ */
+export interface ProjectedPrimitive {
+  points: [number, number][];
+  depth: number;
+}
+
+/**
+ * A shape of an identicon projected to 2D.
+ *
+ * Like Three.js does for transparent objects, shapes are drawn one after the other from back to front and each shape is
+ * blended as a whole with its opacity, so its own triangles never show through each other.
+ *
+ * @interface ProjectedShape
+ * @property {number} depth - Distance from the camera to the shape's position.
+ * @property {[number, number, number]} color - The shaded sRGB color, each channel between 0 and 255.
+ * @property {number} opacity - Opacity of the shape, between 0 and 1.
+ * @property {boolean} wireframe - Whether the primitives are edges rather than triangles.
+ * @property {ProjectedPrimitive[]} primitives - The triangles or edges of the shape, sorted back to front.
+ */
+export interface ProjectedShape {
+  depth: number;
+  color: [number, number, number];
+  opacity: number;
+  wireframe: boolean;
+  primitives: ProjectedPrimitive[];
+}
+
+/**
+ * Computes the on-screen color of a material color lit by the scene's ambient light.
+ *
+ * @param {string} cssColor - The material color as a CSS color string.
+ * @returns {[number, number, number]} The sRGB color, each channel between 0 and 255.
+ */
+export const shadeColor = (cssColor: string): [number, number, number] => {
+  // Color parses CSS colors into the linear working color space; the output is clamped when converted back to sRGB
+  const color = new Color(cssColor).multiplyScalar(AMBIENT_LIGHT_INTENSITY / Math.PI);
+  color.setRGB(Math.min(1, color.r), Math.min(1, color.g), Math.min(1, color.b)).convertLinearToSRGB();
+  return [Math.round(color.r * 255), Math.round(color.g * 255), Math.round(color.b * 255)];
+};
+
+/**
+ * Computes the on-screen color of a shape lit by a light rig, flat over the whole shape.
+ *
+ * A flat color cannot follow the faces of a shape, so each directional light contributes what it would to an average
+ * face turned towards the camera: half its intensity when it shines from the camera, nothing from straight behind.
+ * Metals trade their diffuse color for a reflection of the environment, tinted by their own color, and emissive shapes
+ * add their glow.
+ *
+ * @param {IdenticonShape} shape - The shape, with its material.
+ * @param {LightRig} lighting - The light rig of the spec.
+ * @returns {[number, number, number]} The sRGB color, each channel between 0 and 255.
+ */
+const shadeLitShape = ({ color: cssColor, material }: IdenticonShape, { ambient, key, fill, rim, environment }: LightRig): [number, number, number] => {
+  const albedo = new Color(cssColor);
+  const metalness = material?.metalness ?? 0;
+  const toCamera = new Vector3(...CAMERA_POSITION).normalize();
+
+  // Light reaching the shape, divided by π like the diffuse term of the live materials
+  const irradiance = new Color(ambient.color).multiplyScalar(ambient.intensity);
+  [key, fill, rim].forEach(({ color, intensity, direction }) => {
+    const facing = (1 + new Vector3(...direction).dot(toCamera)) / 4;
+    irradiance.add(new Color(color).multiplyScalar(intensity * facing));
+  });
+  const shaded = albedo.clone().multiply(irradiance).multiplyScalar((1 - metalness) / Math.PI);
+
+  // Reflection of the environment, which averages to the horizon color
+  const reflection = new Color(environment.sky).lerp(new Color(environment.ground), 0.5).multiply(albedo).multiplyScalar(metalness);
+  shaded.add(reflection).add(albedo.clone().multiplyScalar(material?.emissiveIntensity ?? 0));
+
+  shaded.setRGB(Math.min(1, shaded.r), Math.min(1, shaded.g), Math.min(1, shaded.b)).convertLinearToSRGB();
+  return [Math.round(shaded.r * 255), Math.round(shaded.g * 255), Math.round(shaded.b * 255)];
+};
+
+/**
+ * Computes the on-screen color of a shape.
+ *
+ * @param {IdenticonShape} shape - The shape.
+ * @param {LightRig} [lighting] - The light rig of the spec, or undefined for the original lights.
+ * @returns {[number, number, number]} The sRGB color, each channel between 0 and 255.
+ */
+export const shadeShape = (shape: IdenticonShape, lighting?: LightRig): [number, number, number] =>
+  lighting ? shadeLitShape(shape, lighting) : shadeColor(shape.color);
+
+/**
+ * Creates the camera used to view identicon scenes.
+ *
+ * @param {number} [aspect] - Aspect ratio of the image. Defaults to square.
+ * @param {IdenticonFraming} [framing] - Placement of the camera, computed by frameIdenticon. Defaults to the fixed camera looking at the origin.
+ * @returns {PerspectiveCamera} The camera.
+ */
+export const createIdenticonCamera = (aspect = 1, framing?: IdenticonFraming) => {
+  const camera = new PerspectiveCamera(CAMERA_FOV, aspect, 0.1, 1000);
+  camera.position.set(...(framing?.position ?? CAMERA_POSITION));
+  camera.lookAt(...(framing?.target ?? [0, 0, 0]));
+  camera.updateMatrixWorld();
+  return camera;
+};
+
+/**
+ * Projects every shape of an identicon spec to 2D.
+ *
+ * Filled shapes keep only their front faces, as the live scene culls back faces. Wireframe shapes keep every triangle
+ * edge. Triangles crossing the near or far plane are dropped.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to project.
+ * @param {number} [aspect] - Aspect ratio of the image. Defaults to square.
+ * @param {IdenticonFraming} [framing] - Placement of the camera. Defaults to the fixed camera looking at the origin.
+ * @returns {ProjectedShape[]} The projected shapes, sorted back to front.
+ */
+export const projectIdenticon = (spec: IdenticonSpec, aspect = 1, framing?: IdenticonFraming): ProjectedShape[] => {
+  const camera = createIdenticonCamera(aspect, framing);
+
+  const shapes = spec.shapes.map((shape): ProjectedShape => {
+    const geometry = createGeometry(shape.type);
+    const matrix = new Matrix4().compose(
+      new Vector3(...shape.position),
+      new Quaternion().setFromEuler(new Euler(...shape.rotation)),
+      new Vector3(...shape.scale),
+    );
+    const positions = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const triangleCount = (index ? index.count : positions.count) / 3;
+
+    // World positions, view distances and projected points for every vertex
+    const world = Array.from({ length: positions.count }, (_, i) => new Vector3().fromBufferAttribute(positions, i).applyMatrix4(matrix));
+    const depths = world.map((v) => v.distanceTo(camera.position));
+    const projected = world.map((v) => v.clone().project(camera));
+    const visible = projected.map((v) => v.z > -1 && v.z < 1);
+    const toImage = (v: Vector3): [number, number] => [(v.x + 1) / 2, (1 - v.y) / 2];
+
+    // Non-indexed geometries repeat vertices per face, so edges are deduplicated by vertex position
+    const vertexKeys = Array.from({ length: positions.count }, (_, i) =>
+      `${positions.getX(i).toFixed(5)},${positions.getY(i).toFixed(5)},${positions.getZ(i).toFixed(5)}`);
+
+    const primitives: ProjectedPrimitive[] = [];
+    const seenEdges = new Set<string>();
+    for (let t = 0; t < triangleCount; t++) {
+      const ids = [0, 1, 2].map((k) => index ? index.getX(t * 3 + k) : t * 3 + k);
+      if (!ids.every((id) => visible[id])) continue;
+
+      if (shape.wireframe) {
+        for (let k = 0; k < 3; k++) {
+          const a = ids[k], b = ids[(k + 1) % 3];
+          const edgeKey = vertexKeys[a] < vertexKeys[b] ? `${vertexKeys[a]}:${vertexKeys[b]}` : `${vertexKeys[b]}:${vertexKeys[a]}`;
+          if (seenEdges.has(edgeKey)) continue;
+          seenEdges.add(edgeKey);
+          primitives.push({ points: [toImage(projected[a]), toImage(projected[b])], depth: (depths[a] + depths[b]) / 2 });
+        }
+        continue;
+      }
+
+      // Skip back faces, whose normal points away from the camera
+      const [v0, v1, v2] = ids.map((id) => world[id]);
+      const normal = new Vector3().subVectors(v1, v0).cross(new Vector3().subVectors(v2, v0));
+      if (normal.dot(new Vector3().subVectors(camera.position, v0)) <= 0) continue;
+
+      primitives.push({
+        points: ids.map((id) => toImage(projected[id])),
+        depth: (depths[ids[0]] + depths[ids[1]] + depths[ids[2]]) / 3,
+      });
+    }
+
+    geometry.dispose();
+
+    return {
+      depth: new Vector3(...shape.position).distanceTo(camera.position),
+      color: shadeShape(shape, spec.lighting),
+      opacity: shape.opacity,
+      wireframe: shape.wireframe,
+      primitives: primitives.sort((a, b) => b.depth - a.depth),
+    };
+  });
+
+  return shapes.sort((a, b) => b.depth - a.depth);
+};
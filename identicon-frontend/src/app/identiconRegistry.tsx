@@ -0,0 +1,75 @@
+/**
+ * identiconRegistry.tsx
+ *
+ * This file defines the identicon registry, which maps a stable ID to each identicon on the page: its canvas container,
+ * the spec it renders and how its camera is framed. Capture, export and batch features look identicons up by ID instead of by their position in
+ * an array, so the main view and the sidebar can never target each other's canvases.
+ *
+ * IDs are plain strings such as "main" or "forum:0" and must be unique among mounted identicons.
+ */
+
+import { MutableRefObject, useCallback, useEffect, useRef } from 'react';
+import { IdenticonSpec } from './identiconSpec';
+import { DEFAULT_FRAMING_MODE, FramingMode } from './framing';
+
+/**
+ * An identicon registered on the page.
+ *
+ * @interface IdenticonRegistryEntry
+ * @property {HTMLDivElement} element - The container holding the identicon's canvas.
+ * @property {IdenticonSpec | null} spec - The spec the identicon renders, or null while it is loading.
+ * @property {FramingMode} framing - How the identicon's camera is fitted to its shapes, which exports reproduce.
+ */
+export interface IdenticonRegistryEntry {
+  element: HTMLDivElement;
+  spec: IdenticonSpec | null;
+  framing: FramingMode;
+}
+
+export type IdenticonRegistry = Map<string, IdenticonRegistryEntry>;
+
+/**
+ * Provides a callback ref that keeps an identicon's registry entry up to date.
+ *
+ * The ref is stable for a registry and ID, so React only calls it when the container mounts, with the element, and
+ * before it unmounts, with null. The entry's spec and framing are updated after every render that changes them, so
+ * the entry always holds the current spec and framing and disappears together with the identicon.
+ *
+ * @param {MutableRefObject<IdenticonRegistry>} registry - The registry to update.
+ * @param {string} id - The stable ID of the identicon.
+ * @param {IdenticonSpec | null} spec - The spec the identicon currently renders.
+ * @param {FramingMode} [framing] - How the identicon's camera is framed. Defaults to DEFAULT_FRAMING_MODE.
+ * @returns {function} The callback ref for the identicon's container.
+ */
+export const useIdenticonRef = (registry: MutableRefObject<IdenticonRegistry>, id: string, spec: IdenticonSpec | null, framing: FramingMode = DEFAULT_FRAMING_MODE) => {
+  // The spec and framing of the latest render, for the ref to register when the container mounts
+  const current = useRef({ spec, framing });
+  current.current = { spec, framing };
+
+  useEffect(() => {
+    const entry = registry.current.get(id);
+    if (entry) {
+      registry.current.set(id, { ...entry, spec, framing });
+    }
+  }, [registry, id, spec, framing]);
+
+  return useCallback((element: HTMLDivElement | null) => {
+    if (element) {
+      registry.current.set(id, { element, ...current.current });
+    } else {
+      registry.current.delete(id);
+    }
+  }, [registry, id]);
+};
+
+/**
+ * Builds the registry ID of a forum post's identicon. IDs follow the post rather than its author, so several posts by
+ * the same user each have their own entry.
+ *
+ * @param {number} index - The position of the post in the thread.
+ * @returns {string} The registry ID.
+ */
+export const forumIdenticonId = (index: number) => `forum:${index}`;
+
+// Registry ID of the identicon in the main view
+export const MAIN_IDENTICON_ID = 'main';
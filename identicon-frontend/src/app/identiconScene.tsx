@@ -0,0 +1,49 @@
+/**
+ * identiconScene.tsx
+ *
+ * This file builds a plain Three.js scene for an identicon spec, with the same meshes, materials, lights and
+ * environment as the live React scene. It needs no React and no canvas, so it serves the offscreen export renderer and headless tooling.
+ */
+
+import { Euler, Material, Mesh, Scene, Vector3 } from 'three';
+import { IdenticonSpec } from './identiconSpec';
+import { createGeometry } from './geometries';
+import { createShapeMaterial } from './identiconMaterials';
+import { createIdenticonEnvironment, createIdenticonLights } from './identiconLighting';
+
+/**
+ * Builds the Three.js scene for an identicon spec.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @returns {Scene} The scene. Call disposeIdenticonScene when it is no longer needed.
+ */
+export const buildIdenticonScene = (spec: IdenticonSpec): Scene => {
+  const scene = new Scene();
+  scene.add(...createIdenticonLights(spec.lighting));
+  if (spec.lighting) scene.environment = createIdenticonEnvironment(spec.lighting);
+
+  spec.shapes.forEach((shape) => {
+    const mesh = new Mesh(createGeometry(shape.type), createShapeMaterial(shape));
+    mesh.position.copy(new Vector3(...shape.position));
+    mesh.scale.copy(new Vector3(...shape.scale));
+    mesh.rotation.copy(new Euler(...shape.rotation));
+    scene.add(mesh);
+  });
+
+  return scene;
+};
+
+/**
+ * Releases the geometries, materials and environment of a scene built by buildIdenticonScene.
+ *
+ * @param {Scene} scene - The scene to dispose.
+ */
+export const disposeIdenticonScene = (scene: Scene) => {
+  scene.environment?.dispose();
+  scene.traverse((object) => {
+    if (object instanceof Mesh) {
+      object.geometry.dispose();
+      (object.material as Material).dispose();
+    }
+  });
+};
@@ -0,0 +1,82 @@
+/**
+ * identiconServer.test.tsx
+ *
+ * Tests of the identicon IDs keyed servers serve identicons by, which must resolve back to their seed and must not be
+ * forgeable without the secret key, and of the origin used in absolute links, which clients must not be able to spoof.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { issueIdenticonId, requestOrigin, resolveIdenticonId, resolveIdenticonSeed } from './identiconServer';
+
+describe('identicon IDs', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('resolve back to their seed', () => {
+    vi.stubEnv('IDENTICON_SECRET', 'test-secret');
+    ['Jane', 'jane@example.com', 'ünïcødé 🎉', 'a'.repeat(200)].forEach((seed) => {
+      const id = issueIdenticonId(seed);
+      expect(id).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(id).not.toContain(seed);
+      expect(resolveIdenticonId(id)).toBe(seed);
+    });
+  });
+
+  it('are stable for a seed and key', () => {
+    vi.stubEnv('IDENTICON_SECRET', 'test-secret');
+    expect(issueIdenticonId('Jane')).toBe(issueIdenticonId('Jane'));
+    expect(issueIdenticonId('Jane')).not.toBe(issueIdenticonId('Janet'));
+  });
+
+  it('reject raw seeds, tampered IDs and IDs of another key', () => {
+    vi.stubEnv('IDENTICON_SECRET', 'test-secret');
+    const id = issueIdenticonId('Jane');
+    const tampered = `${id.slice(0, 5)}${id[5] === 'A' ? 'B' : 'A'}${id.slice(6)}`;
+    expect(resolveIdenticonSeed('Jane')).toBeNull();
+    expect(resolveIdenticonId(tampered)).toBeNull();
+    expect(resolveIdenticonId('')).toBeNull();
+    expect(resolveIdenticonId('not an id!')).toBeNull();
+
+    vi.stubEnv('IDENTICON_SECRET', 'another-secret');
+    expect(resolveIdenticonId(id)).toBeNull();
+  });
+
+  it('are not used without a secret key', () => {
+    vi.stubEnv('IDENTICON_SECRET', '');
+    expect(resolveIdenticonSeed('Jane')).toBe('Jane');
+    expect(() => issueIdenticonId('Jane')).toThrow('IDENTICON_SECRET');
+  });
+});
+
+describe('requestOrigin', () => {
+  const forwarded = new Headers({ host: 'internal:3000', 'x-forwarded-host': 'public.example, proxy.local', 'x-forwarded-proto': 'http' });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers the configured public origin', () => {
+    vi.stubEnv('IDENTICON_PUBLIC_ORIGIN', 'https://identicons.example.com/some/path');
+    vi.stubEnv('IDENTICON_TRUST_PROXY', 'true');
+    expect(requestOrigin(forwarded)).toBe('https://identicons.example.com');
+  });
+
+  it('ignores forwarded headers unless the proxy is trusted', () => {
+    vi.stubEnv('IDENTICON_PUBLIC_ORIGIN', '');
+    vi.stubEnv('IDENTICON_TRUST_PROXY', '');
+    expect(requestOrigin(forwarded)).toBe('https://internal:3000');
+    expect(requestOrigin(new Headers({ host: 'localhost:3000' }))).toBe('http://localhost:3000');
+
+    vi.stubEnv('IDENTICON_TRUST_PROXY', 'true');
+    expect(requestOrigin(forwarded)).toBe('http://public.example');
+  });
+
+  it('rejects malformed hosts and protocols', () => {
+    vi.stubEnv('IDENTICON_PUBLIC_ORIGIN', '');
+    vi.stubEnv('IDENTICON_TRUST_PROXY', 'true');
+    expect(requestOrigin(new Headers({ 'x-forwarded-host': 'evil.example/"><script>', 'x-forwarded-proto': 'javascript' })))
+      .toBe('http://localhost:3000');
+    expect(requestOrigin(new Headers({ host: 'example.com', 'x-forwarded-proto': 'javascript' }))).toBe('https://example.com');
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * identiconServer.tsx
+ *
+ * This file contains the server-side helpers for keyed identicons and GPU-free image rendering, shared by the route
+ * handlers and the command-line tool. The secret key is read from the IDENTICON_SECRET environment variable, which
+ * Next.js never exposes to the browser because it lacks the NEXT_PUBLIC_ prefix.
+ * In keyed mode the routes do not accept raw seeds, which would let anyone look up the identicon of any email, but
+ * opaque identicon IDs: the seed encrypted with a key derived from the secret, which only the server can issue.
+ * Only import this module from route handlers and other server code.
+ */
+
+import CryptoJS from 'crypto-js';
+import { buildIdenticonSpec, IdenticonSpec, IdenticonSpecOptions, IdenticonSpecVersion, SUPPORTED_SPEC_VERSIONS } from './identiconSpec';
+import { projectIdenticon } from './identiconProjection';
+import { rasterizeIdenticon } from './softwareRenderer';
+import { encodePng } from './png';
+import { renderIdenticonSvg } from './svgRenderer';
+import { DEFAULT_FRAMING_MODE, frameIdenticon, FRAMING_MODES, FramingMode } from './framing';
+import {
+  buildGridIdenticon,
+  DEFAULT_GRID_PADDING,
+  DEFAULT_GRID_SIZE,
+  GridIdenticon,
+  MAX_GRID_PADDING,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+  rasterizeGridIdenticon,
+  renderGridIdenticonSvg,
+} from './gridIdenticon';
+import { parseTheme, themeSpecOptions } from './identiconTheme';
+import { buildHeadSpec, HeadSpec } from './headSpec';
+
+/**
+ * Reads the identicon secret key from the environment.
+ *
+ * @returns {string | undefined} The secret key, or undefined when keyed mode is not configured.
+ */
+export const getIdenticonKey = (): string | undefined => process.env.IDENTICON_SECRET || undefined;
+
+/**
+ * Builds an identicon spec on the server, using the secret key when one is configured.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @param {Omit<IdenticonSpecOptions, 'key'>} [options] - Options controlling the generated spec.
+ * @returns {IdenticonSpec} The identicon description.
+ */
+export const buildServerIdenticonSpec = (seed: string, options: Omit<IdenticonSpecOptions, 'key'> = {}) =>
+  buildIdenticonSpec(seed, { ...options, key: getIdenticonKey() });
+
+// Domain separation tags of the keys encrypting and checking identicon IDs, both derived from the secret key
+const ID_ENCRYPTION_TAG = 'identicon-id/encryption/v1';
+const ID_CHECK_TAG = 'identicon-id/check/v1';
+
+// Length of the synthetic initialization vector at the start of every identicon ID, one AES block
+const ID_IV_BYTES = 16;
+
+/**
+ * Derives the keys of identicon IDs from the secret key.
+ *
+ * @param {string} key - The secret key.
+ * @returns {{ encryption: CryptoJS.lib.WordArray, check: CryptoJS.lib.WordArray }} The AES-256 key and the HMAC key.
+ */
+const identiconIdKeys = (key: string) => ({
+  encryption: CryptoJS.HmacSHA256(ID_ENCRYPTION_TAG, key),
+  check: CryptoJS.HmacSHA256(ID_CHECK_TAG, key),
+});
+
+/**
+ * Computes the initialization vector of a seed's ID, the truncated HMAC of the seed. It makes IDs deterministic, so the
+ * same seed always gets the same ID and identicon URLs stay cacheable, and it authenticates the ID when it is resolved.
+ *
+ * @param {CryptoJS.lib.WordArray} seed - The UTF-8 bytes of the seed.
+ * @param {CryptoJS.lib.WordArray} checkKey - The HMAC key of identicon IDs.
+ * @returns {CryptoJS.lib.WordArray} The initialization vector.
+ */
+const syntheticIv = (seed: CryptoJS.lib.WordArray, checkKey: CryptoJS.lib.WordArray) =>
+  CryptoJS.lib.WordArray.create(CryptoJS.HmacSHA256(seed, checkKey).words.slice(0, ID_IV_BYTES / 4), ID_IV_BYTES);
+
+/**
+ * Issues the opaque identicon ID of a seed, which the spec and image routes accept in keyed mode. Only code that may
+ * show the seed's identicon, such as the page of a known user, should issue IDs.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @returns {string} The URL-safe identicon ID.
+ * @throws {Error} When keyed mode is not configured.
+ */
+export const issueIdenticonId = (seed: string): string => {
+  const key = getIdenticonKey();
+  if (key === undefined) {
+    throw new Error('Identicon IDs need IDENTICON_SECRET to be set');
+  }
+  const { encryption, check } = identiconIdKeys(key);
+  const plaintext = CryptoJS.enc.Utf8.parse(seed);
+  const iv = syntheticIv(plaintext, check);
+  const { ciphertext } = CryptoJS.AES.encrypt(plaintext, encryption, { iv });
+  return CryptoJS.enc.Base64url.stringify(iv.clone().concat(ciphertext));
+};
+
+/**
+ * Resolves an identicon ID back to its seed.
+ *
+ * @param {string} id - The identicon ID.
+ * @returns {string | null} The seed, or null when the ID was not issued with the current secret key.
+ */
+export const resolveIdenticonId = (id: string): string | null => {
+  const key = getIdenticonKey();
+  if (key === undefined) return null;
+
+  const { encryption, check } = identiconIdKeys(key);
+  try {
+    const bytes = CryptoJS.enc.Base64url.parse(id);
+    if (bytes.sigBytes <= ID_IV_BYTES || (bytes.sigBytes - ID_IV_BYTES) % ID_IV_BYTES !== 0) return null;
+    const iv = CryptoJS.lib.WordArray.create(bytes.words.slice(0, ID_IV_BYTES / 4), ID_IV_BYTES);
+    const ciphertext = CryptoJS.lib.WordArray.create(bytes.words.slice(ID_IV_BYTES / 4), bytes.sigBytes - ID_IV_BYTES);
+    const plaintext = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext }), encryption, { iv });
+    if (plaintext.sigBytes < 0 || syntheticIv(plaintext, check).toString() !== iv.toString()) return null;
+    return CryptoJS.enc.Utf8.stringify(plaintext);
+  } catch {
+    // Malformed IDs fail to decode or to decrypt
+    return null;
+  }
+};
+
+/**
+ * Resolves the identicon path segment of the spec and image routes to a seed. In keyed mode the segment must be an
+ * identicon ID; otherwise it is the seed itself, as anyone can compute unkeyed identicons anyway.
+ *
+ * @param {string} id - The path segment.
+ * @returns {string | null} The seed, or null when keyed mode is configured and the segment is not a valid identicon ID.
+ */
+export const resolveIdenticonSeed = (id: string): string | null =>
+  getIdenticonKey() === undefined ? id : resolveIdenticonId(id);
+
+/**
+ * Issues the identicon IDs of the seeds a page shows, such as its known users, for the browser to request their specs
+ * and images with.
+ *
+ * @param {string[]} seeds - The seed strings.
+ * @returns {Record<string, string>} The identicon ID of each seed in keyed mode, or an empty record when seeds are used as is.
+ */
+export const issueIdenticonIds = (seeds: string[]): Record<string, string> =>
+  getIdenticonKey() === undefined ? {} : Object.fromEntries(seeds.map((seed) => [seed, issueIdenticonId(seed)]));
+
+// Upper bound on the number of shapes a request may ask for
+export const MAX_SHAPE_COUNT = 64;
+
+/**
+ * Parses the identicon spec options from the query parameters of a request.
+ *
+ * Supported parameters are `shapes`, `version`, `namespace` and `theme`, the JSON of an identicon theme whose version,
+ * shape count, geometries, palette and material are used (see identiconTheme.tsx). Invalid values throw an Error whose
+ * message can be returned to the client.
+ *
+ * @param {URLSearchParams} searchParams - The query parameters of the request.
+ * @returns {Omit<IdenticonSpecOptions, 'key'>} The parsed spec options.
+ */
+export const parseSpecOptions = (searchParams: URLSearchParams): Omit<IdenticonSpecOptions, 'key'> => {
+  const options: Omit<IdenticonSpecOptions, 'key'> = {};
+
+  const shapes = searchParams.get('shapes');
+  if (shapes !== null) {
+    const count = Number(shapes);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SHAPE_COUNT) {
+      throw new Error(`shapes must be an integer between 1 and ${MAX_SHAPE_COUNT}`);
+    }
+    options.shapes = count;
+  }
+
+  const version = searchParams.get('version');
+  if (version !== null) {
+    const parsed = Number(version);
+    if (!(SUPPORTED_SPEC_VERSIONS as readonly number[]).includes(parsed)) {
+      throw new Error(`version must be one of ${SUPPORTED_SPEC_VERSIONS.join(', ')}`);
+    }
+    options.version = parsed as IdenticonSpecVersion;
+  }
+
+  const namespace = searchParams.get('namespace');
+  if (namespace !== null) {
+    if (namespace === '') {
+      throw new Error('namespace must not be empty');
+    }
+    options.namespace = namespace;
+  }
+
+  const theme = searchParams.get('theme');
+  if (theme !== null) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(theme);
+    } catch {
+      throw new Error('theme must be the JSON of an identicon theme');
+    }
+    const { shapes: themeShapes, version: themeVersion, ...themeOptions } = themeSpecOptions(parseTheme(parsed));
+    Object.assign(options, themeOptions);
+    // The shapes and version parameters take precedence over the theme's shape count and version
+    if (options.shapes === undefined) options.shapes = themeShapes;
+    if (options.version === undefined) options.version = themeVersion;
+  }
+
+  return options;
+};
+
+// Identicon styles that can be rendered without a GPU, named like the styles of the style registry
+export const IMAGE_STYLES = ['geometric', 'grid'] as const;
+
+export type ImageStyle = typeof IMAGE_STYLES[number];
+
+// Image formats the identicon image route can produce
+export const IMAGE_FORMATS = ['png', 'svg'] as const;
+
+export type ImageFormat = typeof IMAGE_FORMATS[number];
+
+// Bounds and default for the size of server-rendered identicon images
+export const MIN_IMAGE_SIZE = 16;
+export const MAX_IMAGE_SIZE = 1024;
+export const DEFAULT_IMAGE_SIZE = 256;
+
+/**
+ * Options for a server-rendered identicon image.
+ *
+ * @interface ImageOptions
+ * @property {number} size - Width and height of the image in pixels.
+ * @property {ImageFormat} format - The image format.
+ * @property {[number, number, number] | null} background - Background color as sRGB channels, or null for transparent.
+ * @property {FramingMode} framing - How the camera is fitted to the shapes. Only used by the geometric style.
+ * @property {ImageStyle} style - The identicon style.
+ * @property {number} gridSize - Number of cells along each side of the grid. Only used by the grid style.
+ * @property {number} padding - Empty margin around the grid, in cells. Only used by the grid style.
+ */
+export interface ImageOptions {
+  size: number;
+  format: ImageFormat;
+  background: [number, number, number] | null;
+  framing: FramingMode;
+  style: ImageStyle;
+  gridSize: number;
+  padding: number;
+}
+
+/**
+ * Parses the image options from the query parameters of a request.
+ *
+ * Supported parameters are `size`, `format`, `background`, `framing`, `style`, `grid` and `padding`, where the background
+ * is either "transparent" or a hex color such as "fff" or "#1e293b", the framing is "tight", "padded" or "fixed", and the
+ * style is "geometric" or "grid". `grid` is the number of cells along each side of a grid identicon and `padding` its
+ * margin in cells. Invalid values throw an Error whose message can be returned to the client.
+ *
+ * @param {URLSearchParams} searchParams - The query parameters of the request.
+ * @returns {ImageOptions} The parsed image options.
+ */
+export const parseImageOptions = (searchParams: URLSearchParams): ImageOptions => {
+  const size = Number(searchParams.get('size') ?? DEFAULT_IMAGE_SIZE);
+  if (!Number.isInteger(size) || size < MIN_IMAGE_SIZE || size > MAX_IMAGE_SIZE) {
+    throw new Error(`size must be an integer between ${MIN_IMAGE_SIZE} and ${MAX_IMAGE_SIZE}`);
+  }
+
+  const format = searchParams.get('format') ?? 'png';
+  if (!(IMAGE_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`format must be one of ${IMAGE_FORMATS.join(', ')}`);
+  }
+
+  const backgroundParam = searchParams.get('background') ?? 'transparent';
+  let background: [number, number, number] | null = null;
+  if (backgroundParam !== 'transparent') {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(backgroundParam);
+    if (!match) {
+      throw new Error('background must be "transparent" or a hex color');
+    }
+    const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+    background = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+  }
+
+  const framing = searchParams.get('framing') ?? DEFAULT_FRAMING_MODE;
+  if (!(FRAMING_MODES as readonly string[]).includes(framing)) {
+    throw new Error(`framing must be one of ${FRAMING_MODES.join(', ')}`);
+  }
+
+  const style = searchParams.get('style') ?? 'geometric';
+  if (!(IMAGE_STYLES as readonly string[]).includes(style)) {
+    throw new Error(`style must be one of ${IMAGE_STYLES.join(', ')}`);
+  }
+
+  const gridSize = Number(searchParams.get('grid') ?? DEFAULT_GRID_SIZE);
+  if (!Number.isInteger(gridSize) || gridSize < MIN_GRID_SIZE || gridSize > MAX_GRID_SIZE) {
+    throw new Error(`grid must be an integer between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}`);
+  }
+
+  const padding = Number(searchParams.get('padding') ?? DEFAULT_GRID_PADDING);
+  if (!Number.isFinite(padding) || padding < 0 || padding > MAX_GRID_PADDING) {
+    throw new Error(`padding must be a number between 0 and ${MAX_GRID_PADDING}`);
+  }
+
+  return {
+    size,
+    format: format as ImageFormat,
+    background,
+    framing: framing as FramingMode,
+    style: style as ImageStyle,
+    gridSize,
+    padding,
+  };
+};
+
+// MIME types of the image formats
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Builds the description of the identicon an image shows: a grid identicon for the grid style, an identicon spec
+ * otherwise. The secret key is used when one is configured.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @param {Omit<IdenticonSpecOptions, 'key'>} specOptions - Options controlling the generated spec. The grid style only uses the version, namespace and palette.
+ * @param {ImageOptions} imageOptions - The image options, which select the style.
+ * @returns {IdenticonSpec | GridIdenticon} The identicon description.
+ */
+export const buildServerIdenticon = (
+  seed: string,
+  specOptions: Omit<IdenticonSpecOptions, 'key'>,
+  { style, gridSize }: ImageOptions,
+): IdenticonSpec | GridIdenticon =>
+  style === 'grid'
+    ? buildGridIdenticon(seed, {
+      gridSize,
+      version: specOptions.version,
+      namespace: specOptions.namespace,
+      palette: specOptions.palette,
+      key: getIdenticonKey(),
+    })
+    : buildServerIdenticonSpec(seed, specOptions);
+
+// Identicon styles the spec route describes, named like the styles of the style registry
+export const SPEC_STYLES = ['geometric', 'head', 'grid'] as const;
+
+/**
+ * Builds the description the spec route returns for a seed, using the secret key when one is configured: an identicon
+ * spec, a head spec or a grid identicon, as selected by the `style` parameter (geometric by default).
+ *
+ * The other parameters are those of parseSpecOptions, and the grid style also takes the `grid` size of parseImageOptions.
+ * The browser fetches the descriptions of every style from here in keyed mode, as it cannot derive keyed hashes itself.
+ * Invalid values throw an Error whose message can be returned to the client.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @param {URLSearchParams} searchParams - The query parameters of the request.
+ * @returns {IdenticonSpec | HeadSpec | GridIdenticon} The identicon description.
+ */
+export const buildRequestedIdenticon = (seed: string, searchParams: URLSearchParams): IdenticonSpec | HeadSpec | GridIdenticon => {
+  const style = searchParams.get('style') ?? 'geometric';
+  if (!(SPEC_STYLES as readonly string[]).includes(style)) {
+    throw new Error(`style must be one of ${SPEC_STYLES.join(', ')}`);
+  }
+
+  const specOptions = parseSpecOptions(searchParams);
+  switch (style) {
+    case 'head':
+      return buildHeadSpec(seed, getIdenticonKey());
+    case 'grid':
+      return buildServerIdenticon(seed, specOptions, parseImageOptions(searchParams));
+    default:
+      return buildServerIdenticonSpec(seed, specOptions);
+  }
+};
+
+/**
+ * Renders an identicon as an image without a GPU: a grid identicon with the grid renderers, an identicon spec with the
+ * SVG renderer or the software renderer.
+ *
+ * @param {IdenticonSpec | GridIdenticon} identicon - The identicon spec or grid identicon to render.
+ * @param {ImageOptions} options - The image options.
+ * @returns {string | Buffer} The SVG document, or the PNG file contents.
+ */
+export const renderIdenticonImage = (
+  identicon: IdenticonSpec | GridIdenticon,
+  { size, format, background, framing, padding }: ImageOptions,
+): string | Buffer => {
+  if ('style' in identicon) {
+    return format === 'svg'
+      ? renderGridIdenticonSvg(identicon, { size, padding, background })
+      : encodePng(rasterizeGridIdenticon(identicon, { size, padding, background }), size, size);
+  }
+
+  if (format === 'svg') {
+    return renderIdenticonSvg(identicon, { size, background, framing });
+  }
+  return encodePng(rasterizeIdenticon(projectIdenticon(identicon, 1, frameIdenticon(identicon, framing)), { size, background }), size, size);
+};
+
+// Host header values accepted as the host of an origin: a host name or IPv4 address, or a bracketed IPv6 address,
+// with an optional port
+const HOST_PATTERN = /^([a-z0-9-]+(\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(:\d{1,5})?$/i;
+
+/**
+ * Reads the first value of a header that proxies may send as a comma-separated list.
+ *
+ * @param {Headers} requestHeaders - The headers of the request.
+ * @param {string} name - The header name.
+ * @returns {string | undefined} The first value, trimmed, or undefined when the header is absent or empty.
+ */
+const firstHeaderValue = (requestHeaders: Headers, name: string) =>
+  requestHeaders.get(name)?.split(',')[0].trim() || undefined;
+
+/**
+ * Reads the public origin of the site, for links that must be absolute, such as link preview images and embeds.
+ *
+ * IDENTICON_PUBLIC_ORIGIN, such as "https://identicons.example.com", takes precedence when it is set. Otherwise the
+ * origin comes from the Host header. Proxies forward the original host and protocol in the X-Forwarded-Host and
+ * X-Forwarded-Proto headers, but anyone can send those, so they are only trusted when IDENTICON_TRUST_PROXY is "true",
+ * behind a proxy that sets them. Hosts that are not plain host names or addresses fall back to "localhost:3000".
+ *
+ * @param {Headers} requestHeaders - The headers of the request.
+ * @returns {string} The origin, such as "https://example.com".
+ */
+export const requestOrigin = (requestHeaders: Headers): string => {
+  const publicOrigin = process.env.IDENTICON_PUBLIC_ORIGIN;
+  if (publicOrigin) {
+    return new URL(publicOrigin).origin;
+  }
+
+  const trustProxy = process.env.IDENTICON_TRUST_PROXY === 'true';
+  const forwardedHost = trustProxy ? firstHeaderValue(requestHeaders, 'x-forwarded-host') : undefined;
+  const forwardedProtocol = trustProxy ? firstHeaderValue(requestHeaders, 'x-forwarded-proto') : undefined;
+
+  const rawHost = forwardedHost ?? requestHeaders.get('host') ?? '';
+  const host = HOST_PATTERN.test(rawHost) ? rawHost.toLowerCase() : 'localhost:3000';
+  const protocol = forwardedProtocol === 'http' || forwardedProtocol === 'https'
+    ? forwardedProtocol
+    : host.startsWith('localhost') ? 'http' : 'https';
+  return `${protocol}://${host}`;
+};
@@ -0,0 +1,89 @@
+/**
+ * identiconSnapshot.tsx
+ *
+ * This file provides static snapshots of identicons: small raster images drawn by the software renderer without WebGL,
+ * cached so each identicon is only rendered once per page. Avatar lists show snapshots until an identicon is upgraded
+ * to a live canvas, and components fall back to them when WebGL is unavailable.
+ * Snapshots are encoded by a 2D canvas, so they are only rendered in the browser, after mounting.
+ */
+
+import { useEffect, useState } from 'react';
+import { IdenticonSpec } from './identiconSpec';
+import { projectIdenticon } from './identiconProjection';
+import { rasterizeIdenticon } from './softwareRenderer';
+import { DEFAULT_FRAMING_MODE, frameIdenticon, FramingMode } from './framing';
+
+// Snapshots rendered so far, keyed by size, framing and spec
+const snapshotCache = new Map<string, string>();
+
+// Total length of the cached data URLs, in characters
+let cachedSnapshotBytes = 0;
+
+// Length of the cached data URLs above which the oldest ones are dropped, in characters
+const MAX_CACHED_SNAPSHOT_BYTES = 4 * 1024 * 1024;
+
+// Quality of the WebP encoding. Browsers unable to encode WebP produce a PNG instead
+const SNAPSHOT_QUALITY = 0.9;
+
+/**
+ * Encodes RGBA pixels as a WebP data URL with a 2D canvas.
+ *
+ * @param {Uint8ClampedArray} pixels - Straight RGBA pixels, row by row from the top left.
+ * @param {number} size - Width and height of the image in pixels.
+ * @returns {string} The image as a data URL, WebP where the browser supports it and PNG otherwise.
+ */
+const encodeSnapshot = (pixels: Uint8ClampedArray, size: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('2D canvas is unavailable');
+  }
+  context.putImageData(new ImageData(pixels, size, size), 0, 0);
+  return canvas.toDataURL('image/webp', SNAPSHOT_QUALITY);
+};
+
+/**
+ * Returns a data URL of an identicon's snapshot, rendering it on first use. Only call it in the browser.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec.
+ * @param {number} [size] - Width and height of the snapshot in pixels. Defaults to 256.
+ * @param {FramingMode} [framing] - How the camera is fitted to the shapes. Defaults to DEFAULT_FRAMING_MODE.
+ * @returns {string} The snapshot as a data URL, usable as an image source.
+ */
+export const identiconSnapshotUrl = (spec: IdenticonSpec, size = 256, framing: FramingMode = DEFAULT_FRAMING_MODE): string => {
+  const key = `${size}:${framing}:${JSON.stringify(spec)}`;
+  let url = snapshotCache.get(key);
+  if (url === undefined) {
+    url = encodeSnapshot(rasterizeIdenticon(projectIdenticon(spec, 1, frameIdenticon(spec, framing)), { size }), size);
+    snapshotCache.set(key, url);
+    cachedSnapshotBytes += url.length;
+
+    // Maps iterate in insertion order, so the first keys are the oldest snapshots. The newest one is always kept
+    for (const [oldKey, oldUrl] of Array.from(snapshotCache)) {
+      if (cachedSnapshotBytes <= MAX_CACHED_SNAPSHOT_BYTES || oldKey === key) break;
+      snapshotCache.delete(oldKey);
+      cachedSnapshotBytes -= oldUrl.length;
+    }
+  }
+  return url;
+};
+
+/**
+ * Provides the snapshot of an identicon, rendered after mounting so the server and the first browser render agree.
+ *
+ * @param {IdenticonSpec | null} spec - The identicon spec, or null while it is loading.
+ * @param {number} [size] - Width and height of the snapshot in pixels. Defaults to 256.
+ * @param {FramingMode} [framing] - How the camera is fitted to the shapes. Defaults to DEFAULT_FRAMING_MODE.
+ * @returns {string | null} The snapshot as a data URL, or null until it is rendered.
+ */
+export const useIdenticonSnapshot = (spec: IdenticonSpec | null, size = 256, framing: FramingMode = DEFAULT_FRAMING_MODE): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(spec && identiconSnapshotUrl(spec, size, framing));
+  }, [spec, size, framing]);
+
+  return url;
+};
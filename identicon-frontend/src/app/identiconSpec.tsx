@@ -0,0 +1,424 @@
+/**
+ * identiconSpec.tsx
+ *
+ * This file defines the framework-free identicon generator. Given a seed string, buildIdenticonSpec returns a plain JSON description of every shape in the identicon (geometry type, position, scale, rotation, color, opacity and wireframe flag) together with the version of the algorithm that produced it.
+ * Since version 3, which is opt-in, the hash also picks each shape's material and the light rig and environment the identicon is lit by.
+ * The geometries, palette and material the shapes are picked from can be changed, as identicon themes do (see identiconTheme.tsx and identiconPalette.tsx).
+ * The spec is what the React components, and any other renderer, draw from. It has no dependency on React or Three.js so it can run in the browser, on a server or in tests.
+ */
+
+import { deriveShapeHash, SeedDerivation } from './seedDerivation';
+import { DEFAULT_PALETTE, getPaletteColor, PaletteSettings, validatePalette } from './identiconPalette';
+
+/**
+ * The default version of the identicon algorithm, used wherever no version is given.
+ *
+ * Links, embeds and manifests that do not name a version follow it, so bumping it changes already-issued avatars.
+ * Changes that would alter the shapes generated for an existing seed go in a new version, opt-in through the `version`
+ * option and identicon themes, such as version 3; the default only moves once every issued avatar may change.
+ */
+export const IDENTICON_SPEC_VERSION = 2;
+
+/**
+ * The algorithm versions buildIdenticonSpec knows how to produce.
+ */
+export const SUPPORTED_SPEC_VERSIONS = [1, 2, 3] as const;
+
+export type IdenticonSpecVersion = typeof SUPPORTED_SPEC_VERSIONS[number];
+
+/**
+ * The seed derivation used by each algorithm version.
+ *
+ * Version 1 is the original site, which derived shape hashes with the ambiguous "v0" scheme.
+ * Version 2 switched to the collision-free "v1" scheme; the shape layout is otherwise unchanged.
+ * Version 3 keeps the "v1" scheme and adds hash-driven materials and lighting.
+ */
+export const SPEC_SEED_DERIVATIONS: Record<IdenticonSpecVersion, SeedDerivation> = {
+  1: 'v0',
+  2: 'v1',
+  3: 'v1',
+};
+
+// First version whose specs describe materials and lighting; earlier specs are drawn with the original material and lights
+export const MATERIALS_SPEC_VERSION = 3;
+
+// Default number of geometric shapes in an identicon
+export const DEFAULT_SHAPE_COUNT = 10;
+
+/**
+ * The geometry types an identicon shape can take, in the order they are selected from the hash.
+ */
+export const GEOMETRY_TYPES = ['box', 'sphere', 'cone', 'torusKnot', 'dodecahedron', 'octahedron', 'tetrahedron'] as const;
+
+export type GeometryType = typeof GEOMETRY_TYPES[number];
+
+/**
+ * The rules deciding which shapes are drawn as wireframes.
+ *
+ * - "alternate": shapes whose geometry sits at an even index of the geometry set, like the original identicons.
+ * - "all": every shape.
+ * - "none": no shape.
+ */
+export const WIREFRAME_RULES = ['alternate', 'all', 'none'] as const;
+
+export type WireframeRule = typeof WIREFRAME_RULES[number];
+
+/**
+ * The material families a shape can be made of, in the order they are selected from the hash.
+ *
+ * - "standard": a plain, mostly rough surface.
+ * - "metallic": a polished metal reflecting the environment.
+ * - "glass": a clear-coated, partly transmissive surface.
+ * - "toon": flat cel shading.
+ * - "emissive": a surface glowing in its own color, which Bloom picks up.
+ */
+export const MATERIAL_FAMILIES = ['standard', 'metallic', 'glass', 'toon', 'emissive'] as const;
+
+export type MaterialFamily = typeof MATERIAL_FAMILIES[number];
+
+/**
+ * The material of the shapes.
+ *
+ * @interface MaterialSettings
+ * @property {[number, number]} opacity - Smallest and largest opacity of a shape, each between 0 and 1. The hash picks a value in between.
+ * @property {WireframeRule} wireframe - Which shapes are drawn as wireframes.
+ * @property {MaterialFamily[]} families - The material families the hash picks from, without duplicates. Used from version 3.
+ */
+export interface MaterialSettings {
+  opacity: [number, number];
+  wireframe: WireframeRule;
+  families: MaterialFamily[];
+}
+
+// Material of the original identicons, with every material family of version 3
+export const DEFAULT_MATERIAL: MaterialSettings = { opacity: [0.5, 1], wireframe: 'alternate', families: [...MATERIAL_FAMILIES] };
+
+export type Vec3 = [number, number, number];
+
+/**
+ * The material of a single shape.
+ *
+ * @interface ShapeMaterial
+ * @property {MaterialFamily} family - The material family.
+ * @property {number} roughness - Roughness of the surface, between 0 for a mirror and 1 for a fully diffuse surface.
+ * @property {number} metalness - Metalness of the surface, between 0 and 1.
+ * @property {number} emissiveIntensity - Strength of the glow in the shape's own color, 0 for shapes that do not glow.
+ */
+export interface ShapeMaterial {
+  family: MaterialFamily;
+  roughness: number;
+  metalness: number;
+  emissiveIntensity: number;
+}
+
+/**
+ * A light shining on the identicon from far away, like the sun.
+ *
+ * @interface DirectionalLight
+ * @property {string} color - The light color as a CSS color string.
+ * @property {number} intensity - Intensity of the light.
+ * @property {Vec3} direction - Unit vector from the center of the scene towards the light.
+ */
+export interface DirectionalLight {
+  color: string;
+  intensity: number;
+  direction: Vec3;
+}
+
+/**
+ * The lights and environment an identicon is lit by: a three-point rig of key, fill and rim lights over an ambient
+ * light, and a sky-to-ground gradient that metallic and glass shapes reflect.
+ *
+ * @interface LightRig
+ * @property {{ color: string, intensity: number }} ambient - The ambient light lighting every surface evenly.
+ * @property {DirectionalLight} key - The main light, above the scene.
+ * @property {DirectionalLight} fill - A softer light from the opposite side, filling the shadows of the key light.
+ * @property {DirectionalLight} rim - A light from behind the shapes, outlining them.
+ * @property {{ sky: string, ground: string }} environment - Colors of the environment above and below the horizon.
+ */
+export interface LightRig {
+  ambient: { color: string, intensity: number };
+  key: DirectionalLight;
+  fill: DirectionalLight;
+  rim: DirectionalLight;
+  environment: { sky: string, ground: string };
+}
+
+/**
+ * Description of a single shape within an identicon.
+ *
+ * @interface IdenticonShape
+ * @property {GeometryType} type - The geometry used for the shape.
+ * @property {Vec3} position - Position of the shape, each axis between -5 and 5.
+ * @property {Vec3} scale - Scale of the shape, each axis between 0.5 and 2.5.
+ * @property {Vec3} rotation - Euler rotation (XYZ order) of the shape in radians, each axis between 0 and 2π.
+ * @property {string} color - The shape color as a CSS color string.
+ * @property {number} opacity - Opacity of the shape material, between 0.5 and 1.
+ * @property {boolean} wireframe - Whether the shape is drawn as a wireframe.
+ * @property {ShapeMaterial} [material] - The material of the shape, from version 3. Shapes without one use the original plain material.
+ */
+export interface IdenticonShape {
+  type: GeometryType;
+  position: Vec3;
+  scale: Vec3;
+  rotation: Vec3;
+  color: string;
+  opacity: number;
+  wireframe: boolean;
+  material?: ShapeMaterial;
+}
+
+/**
+ * Full description of an identicon.
+ *
+ * @interface IdenticonSpec
+ * @property {IdenticonSpecVersion} version - The algorithm version used to build the spec.
+ * @property {string} seed - The seed string the spec was built from.
+ * @property {string} [namespace] - The namespace the shape hashes were derived in, if any.
+ * @property {boolean} [keyed] - Whether the shape hashes were derived with a secret key. The key itself is never part of the spec.
+ * @property {IdenticonShape[]} shapes - The shapes making up the identicon.
+ * @property {LightRig} [lighting] - The lights and environment of the identicon, from version 3. Specs without one use the original ambient and point lights.
+ */
+export interface IdenticonSpec {
+  version: IdenticonSpecVersion;
+  seed: string;
+  namespace?: string;
+  keyed?: boolean;
+  shapes: IdenticonShape[];
+  lighting?: LightRig;
+}
+
+/**
+ * Options accepted by buildIdenticonSpec.
+ *
+ * @interface IdenticonSpecOptions
+ * @property {number} [shapes] - Number of shapes to generate. Defaults to DEFAULT_SHAPE_COUNT.
+ * @property {IdenticonSpecVersion} [version] - Algorithm version to use. Defaults to IDENTICON_SPEC_VERSION.
+ * @property {string} [namespace] - Namespace or salt for the shape hashes, so the same seed yields different identicons per product. Requires version 2 or later.
+ * @property {string} [key] - Secret key for HMAC-derived shape hashes. Requires version 2 or later and must only be used server-side.
+ * @property {readonly GeometryType[]} [geometries] - The geometries the hash picks from, without duplicates. Defaults to GEOMETRY_TYPES.
+ * @property {PaletteSettings} [palette] - The colors of the shapes. Defaults to DEFAULT_PALETTE.
+ * @property {MaterialSettings} [material] - The opacity, wireframe rule and material families of the shapes. Defaults to DEFAULT_MATERIAL.
+ */
+export interface IdenticonSpecOptions {
+  shapes?: number;
+  version?: IdenticonSpecVersion;
+  namespace?: string;
+  key?: string;
+  geometries?: readonly GeometryType[];
+  palette?: PaletteSettings;
+  material?: MaterialSettings;
+}
+
+/**
+ * Generates a value within a given range based on the hash and index.
+ *
+ * This function extracts a byte of the hash string, converts it to a decimal value, and scales it to the specified range. The index determines which byte of the hash is used, ensuring different properties for different parts of the identicon.
+ *
+ * @param {string} hash - The hash string.
+ * @param {number} index - The index of the byte to extract from the hash.
+ * @param {number} range - The range of the value.
+ * @returns {number} A value within the specified range.
+ */
+export const getRandomValue = (hash: string, index: number, range: number) =>
+  (parseInt(hash.slice((index % (hash.length / 2)) * 2, (index % (hash.length / 2)) * 2 + 2), 16) / 255) * range;
+
+/**
+ * Picks a color from a palette based on the hash and index.
+ *
+ * @param {string} hash - The hash string.
+ * @param {number} index - The index of the byte to pick the color with.
+ * @param {PaletteSettings} [palette] - The palette to pick from. Defaults to DEFAULT_PALETTE, whose colors are in HSL format.
+ * @returns {string} The color as a CSS color string.
+ */
+export const getColorFromHash = (hash: string, index: number, palette: PaletteSettings = DEFAULT_PALETTE) =>
+  getPaletteColor(getRandomValue(hash, index, 1), palette);
+
+/**
+ * Generates a value between two bounds based on the hash and index.
+ *
+ * @param {string} hash - The hash string.
+ * @param {number} index - The index of the byte to use.
+ * @param {[number, number]} range - The smallest and largest value.
+ * @returns {number} A value within the bounds.
+ */
+const getValueInRange = (hash: string, index: number, [min, max]: [number, number]) => min + getRandomValue(hash, index, max - min);
+
+// Roughness, metalness and emissive intensity of each material family, as the ranges the hash picks values within
+const MATERIAL_RANGES: Record<MaterialFamily, Record<Exclude<keyof ShapeMaterial, 'family'>, [number, number]>> = {
+  standard: { roughness: [0.4, 1], metalness: [0, 0.2], emissiveIntensity: [0, 0] },
+  metallic: { roughness: [0.1, 0.45], metalness: [0.8, 1], emissiveIntensity: [0, 0] },
+  glass: { roughness: [0, 0.2], metalness: [0, 0], emissiveIntensity: [0, 0] },
+  toon: { roughness: [1, 1], metalness: [0, 0], emissiveIntensity: [0, 0] },
+  emissive: { roughness: [0.3, 0.8], metalness: [0, 0], emissiveIntensity: [0.4, 1.2] },
+};
+
+/**
+ * Builds the material of a single shape from its material hash: byte 0 selects the family, bytes 1-3 the roughness,
+ * metalness and emissive intensity within the family's ranges.
+ *
+ * @param {string} hash - The material hash derived for the shape.
+ * @param {readonly MaterialFamily[]} families - The material families to pick from.
+ * @returns {ShapeMaterial} The material description.
+ */
+const buildShapeMaterial = (hash: string, families: readonly MaterialFamily[]): ShapeMaterial => {
+  const family = families[Math.min(families.length - 1, Math.floor(getRandomValue(hash, 0, families.length)))];
+  const ranges = MATERIAL_RANGES[family];
+  return {
+    family,
+    roughness: getValueInRange(hash, 1, ranges.roughness),
+    metalness: getValueInRange(hash, 2, ranges.metalness),
+    emissiveIntensity: getValueInRange(hash, 3, ranges.emissiveIntensity),
+  };
+};
+
+// Direction of the camera around the vertical axis, which the light rig is placed relative to
+const CAMERA_AZIMUTH = Math.PI / 4;
+
+/**
+ * Computes the unit vector pointing towards a direction given by its angles.
+ *
+ * @param {number} azimuth - Angle around the vertical axis in radians, 0 along the x axis, growing towards the z axis.
+ * @param {number} elevation - Angle above the horizon in radians.
+ * @returns {Vec3} The unit vector.
+ */
+const directionFromAngles = (azimuth: number, elevation: number): Vec3 =>
+  [Math.cos(elevation) * Math.cos(azimuth), Math.sin(elevation), Math.cos(elevation) * Math.sin(azimuth)];
+
+/**
+ * Builds the light rig of an identicon from its lighting hash, using bytes 0-14.
+ *
+ * The key light shines from up to 90° either side of the camera and the fill light from the other side, so the shapes
+ * are always lit from the front; the rim light shines from behind. Light colors are pale tints, so the shapes keep
+ * their own colors, and the ambient light keeps shadowed faces readable.
+ *
+ * @param {string} hash - The lighting hash derived for the identicon.
+ * @returns {LightRig} The light rig.
+ */
+const buildLightRig = (hash: string): LightRig => {
+  const keyOffset = getValueInRange(hash, 1, [-Math.PI / 2, Math.PI / 2]);
+  const fillOffset = getValueInRange(hash, 6, [Math.PI / 4, Math.PI / 2]) * (keyOffset < 0 ? 1 : -1);
+
+  return {
+    ambient: {
+      color: `hsl(${getRandomValue(hash, 10, 360)}, 30%, 85%)`,
+      intensity: getValueInRange(hash, 11, [0.8, 1.4]),
+    },
+    key: {
+      color: `hsl(${getRandomValue(hash, 0, 360)}, 40%, 90%)`,
+      intensity: getValueInRange(hash, 3, [2.5, 3.5]),
+      direction: directionFromAngles(CAMERA_AZIMUTH + keyOffset, getValueInRange(hash, 2, [Math.PI / 7, Math.PI / 3])),
+    },
+    fill: {
+      color: `hsl(${getRandomValue(hash, 4, 360)}, 50%, 75%)`,
+      intensity: getValueInRange(hash, 5, [0.8, 1.4]),
+      direction: directionFromAngles(CAMERA_AZIMUTH + fillOffset, getValueInRange(hash, 7, [0, Math.PI / 6])),
+    },
+    rim: {
+      color: `hsl(${getRandomValue(hash, 8, 360)}, 80%, 75%)`,
+      intensity: getValueInRange(hash, 9, [1.5, 2.5]),
+      direction: directionFromAngles(CAMERA_AZIMUTH + Math.PI + getValueInRange(hash, 12, [-Math.PI / 4, Math.PI / 4]), Math.PI / 4),
+    },
+    environment: {
+      sky: `hsl(${getRandomValue(hash, 13, 360)}, 50%, 65%)`,
+      ground: `hsl(${getRandomValue(hash, 14, 360)}, 30%, 20%)`,
+    },
+  };
+};
+
+/**
+ * Builds the description of a single shape from its hash.
+ *
+ * The byte layout matches the original GeometricIdenticon component: byte 0 selects the geometry, bytes 1-3 the position,
+ * bytes 4-6 the scale, byte 7 the hue, bytes 8-10 the rotation and byte 11 the opacity. With the default geometries,
+ * palette and material, shapes are exactly those of the original component, to which version 3 adds the material,
+ * built from a hash of its own so the shape hash's remaining bytes stay free for grid identicons.
+ *
+ * @param {string} hash - The hash derived for the shape.
+ * @param {readonly GeometryType[]} geometries - The geometries to pick from.
+ * @param {PaletteSettings} palette - The colors of the shape.
+ * @param {MaterialSettings} material - The opacity, wireframe rule and material families of the shape.
+ * @param {string} [materialHash] - The material hash derived for the shape, from version 3, whose shapes describe their material.
+ * @returns {IdenticonShape} The shape description.
+ */
+const buildShape = (
+  hash: string,
+  geometries: readonly GeometryType[],
+  palette: PaletteSettings,
+  { opacity: [minOpacity, maxOpacity], wireframe, families }: MaterialSettings,
+  materialHash?: string,
+): IdenticonShape => {
+  // Byte 0 maps to 0..geometries.length; the top index (byte value 255) falls back to the first geometry, drawn solid
+  const typeIndex = Math.floor(getRandomValue(hash, 0, geometries.length));
+
+  return {
+    type: geometries[typeIndex] ?? geometries[0],
+    position: [
+      getRandomValue(hash, 1, 10) - 5,
+      getRandomValue(hash, 2, 10) - 5,
+      getRandomValue(hash, 3, 10) - 5,
+    ],
+    scale: [
+      getRandomValue(hash, 4, 2) + 0.5,
+      getRandomValue(hash, 5, 2) + 0.5,
+      getRandomValue(hash, 6, 2) + 0.5,
+    ],
+    rotation: [
+      getRandomValue(hash, 8, Math.PI * 2),
+      getRandomValue(hash, 9, Math.PI * 2),
+      getRandomValue(hash, 10, Math.PI * 2),
+    ],
+    color: getColorFromHash(hash, 7, palette),
+    opacity: minOpacity + getRandomValue(hash, 11, maxOpacity - minOpacity),
+    wireframe: wireframe === 'all' || (wireframe === 'alternate' && typeIndex % 2 === 0),  // Wireframe for even type indices
+    ...(materialHash !== undefined && { material: buildShapeMaterial(materialHash, families) }),
+  };
+};
+
+/**
+ * Builds the plain JSON description of the identicon for a seed.
+ *
+ * Each shape is derived from its own hash, so the same seed and options always produce the same spec regardless of
+ * where it is computed.
+ *
+ * @param {string} seed - The seed string, typically a username.
+ * @param {IdenticonSpecOptions} [options] - Options controlling the generated spec.
+ * @returns {IdenticonSpec} The identicon description.
+ */
+export const buildIdenticonSpec = (seed: string, options: IdenticonSpecOptions = {}): IdenticonSpec => {
+  const {
+    shapes = DEFAULT_SHAPE_COUNT,
+    version = IDENTICON_SPEC_VERSION,
+    namespace,
+    key,
+    geometries = GEOMETRY_TYPES,
+    palette = DEFAULT_PALETTE,
+    material = DEFAULT_MATERIAL,
+  } = options;
+
+  if (!SUPPORTED_SPEC_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported identicon spec version: ${version}`);
+  }
+  if (!geometries.length || geometries.some((type, i) => !GEOMETRY_TYPES.includes(type) || geometries.indexOf(type) !== i)) {
+    throw new Error(`Geometries must be distinct values among ${GEOMETRY_TYPES.join(', ')}`);
+  }
+  if (!material.families.length || material.families.some((family, i) => !MATERIAL_FAMILIES.includes(family) || material.families.indexOf(family) !== i)) {
+    throw new Error(`Material families must be distinct values among ${MATERIAL_FAMILIES.join(', ')}`);
+  }
+  validatePalette(palette);
+
+  const derivation = SPEC_SEED_DERIVATIONS[version];
+  const withMaterials = version >= MATERIALS_SPEC_VERSION;
+  const hashes = Array.from({ length: shapes }, (_, i) => deriveShapeHash(seed, i, { derivation, namespace, key }));
+  const materialHashes = hashes.map((_, i) => withMaterials ? deriveShapeHash(seed, i, { derivation, namespace, key, purpose: 'material' }) : undefined);
+
+  return {
+    version,
+    seed,
+    ...(namespace !== undefined && { namespace }),
+    ...(key !== undefined && { keyed: true }),
+    shapes: hashes.map((hash, i) => buildShape(hash, geometries, palette, material, materialHashes[i])),
+    // The lights come from a hash of their own, so they do not change with the shape count
+    ...(withMaterials && { lighting: buildLightRig(deriveShapeHash(seed, 0, { derivation, namespace, key, purpose: 'lighting' })) }),
+  };
+};
@@ -0,0 +1,205 @@
+/**
+ * identiconStyles.tsx
+ *
+ * This file defines the identicon style registry. A style is one way of turning a seed into an identicon, such as the
+ * floating geometric shapes, the portrait-style head or the classic 2D grid. Each style declares its name, the schema
+ * of the options it accepts and the view that renders it for a seed, so pickers and option controls can be generated
+ * from the registry and new styles can be added without touching the pages that show them.
+ *
+ * Style IDs are stable: they are recorded in URLs, registry entries and exported files, and must never be renamed.
+ */
+
+import { ComponentType } from 'react';
+import { IdenticonSpec } from './identiconSpec';
+import { FramingMode } from './framing';
+import { DEFAULT_THEME, IdenticonTheme, MAX_THEME_SHAPES, MIN_THEME_SHAPES } from './identiconTheme';
+import GeometricView from './GeometricView';
+import HeadView from './HeadView';
+import GridView from './GridView';
+import { DEFAULT_GRID_PADDING, DEFAULT_GRID_SIZE, MAX_GRID_PADDING, MAX_GRID_SIZE, MIN_GRID_SIZE } from './gridIdenticon';
+
+/**
+ * The identicon styles, in the order they are offered.
+ */
+export const IDENTICON_STYLE_IDS = ['geometric', 'head', 'grid'] as const;
+
+export type IdenticonStyleId = typeof IDENTICON_STYLE_IDS[number];
+
+// Style used unless another one is requested
+export const DEFAULT_STYLE_ID: IdenticonStyleId = 'geometric';
+
+/**
+ * Description of an option a style accepts, used to validate values and to generate its control.
+ *
+ * @interface StyleOptionSchema
+ * @property {string} key - Name of the option in the option values and in URLs.
+ * @property {string} label - Label shown next to the option's control.
+ * @property {'number' | 'boolean'} type - The type of the option's value.
+ * @property {number} [min] - Smallest value of a number option.
+ * @property {number} [max] - Largest value of a number option.
+ * @property {number} [step] - Step between values of a number option. Integer options use 1.
+ * @property {number | boolean} default - Value used when the option is not set.
+ * @property {keyof IdenticonTheme} [themeSetting] - Setting of the identicon theme the option defaults to instead, when a theme is given. The option then only overrides the theme.
+ */
+export interface StyleOptionSchema {
+  key: string;
+  label: string;
+  type: 'number' | 'boolean';
+  min?: number;
+  max?: number;
+  step?: number;
+  default: number | boolean;
+  themeSetting?: keyof IdenticonTheme;
+}
+
+export type StyleOptionValues = Record<string, number | boolean>;
+
+/**
+ * Props passed to the view of every style.
+ *
+ * @interface IdenticonViewProps
+ * @property {string} seed - The seed string to render.
+ * @property {StyleOptionValues} options - The style's option values, complete with defaults.
+ * @property {boolean} rotate - Whether the identicon should move.
+ * @property {FramingMode} framing - How the camera is fitted to the identicon, for styles that support framing.
+ * @property {boolean} effects - Whether post-processing effects are applied, for styles that have them.
+ * @property {boolean} interactive - Whether the user can orbit and zoom the identicon, for 3D styles.
+ * @property {function} [onSpecChange] - Receives the spec the view renders, for styles whose identicons are described by an identicon spec, so it can be registered for downloads.
+ * @property {function} [onReady] - Called whenever the identicon of a new seed has been drawn and can be captured.
+ * @property {function} [onError] - Receives the error keeping the identicon from being drawn, such as a seed the server does not serve in keyed mode, or null when it is loaded again.
+ */
+export interface IdenticonViewProps {
+  seed: string;
+  options: StyleOptionValues;
+  rotate: boolean;
+  framing: FramingMode;
+  effects: boolean;
+  interactive: boolean;
+  onSpecChange?: (spec: IdenticonSpec | null) => void;
+  onReady?: () => void;
+  onError?: (error: Error | null) => void;
+}
+
+/**
+ * An identicon style.
+ *
+ * @interface IdenticonStyle
+ * @property {IdenticonStyleId} id - The stable ID of the style.
+ * @property {string} name - Name shown in the style picker.
+ * @property {string} description - One-sentence description of the style.
+ * @property {StyleOptionSchema[]} options - The options the style accepts.
+ * @property {ComponentType<IdenticonViewProps>} View - Renders the identicon of a seed, filling its container.
+ */
+export interface IdenticonStyle {
+  id: IdenticonStyleId;
+  name: string;
+  description: string;
+  options: StyleOptionSchema[];
+  View: ComponentType<IdenticonViewProps>;
+}
+
+/**
+ * The registered styles, keyed by ID.
+ */
+export const IDENTICON_STYLES: Record<IdenticonStyleId, IdenticonStyle> = {
+  geometric: {
+    id: 'geometric',
+    name: 'Geometric',
+    description: 'Floating geometric shapes with hash-driven type, position, scale, rotation and color.',
+    options: [
+      { key: 'shapes', label: 'Shapes', type: 'number', min: MIN_THEME_SHAPES, max: MAX_THEME_SHAPES, step: 1, default: DEFAULT_THEME.shapes, themeSetting: 'shapes' },
+    ],
+    View: GeometricView,
+  },
+  head: {
+    id: 'head',
+    name: 'Head',
+    description: 'A hash-tinted portrait head with a ring of primitives and an accessory, lit in the seed\'s color.',
+    options: [
+      { key: 'accessories', label: 'Accessories', type: 'boolean', default: true },
+    ],
+    View: HeadView,
+  },
+  grid: {
+    id: 'grid',
+    name: 'Grid',
+    description: 'A classic 2D mirrored pixel grid in the color of the geometric identicon\'s first shape, for places that cannot afford 3D.',
+    options: [
+      { key: 'grid', label: 'Grid size', type: 'number', min: MIN_GRID_SIZE, max: MAX_GRID_SIZE, step: 1, default: DEFAULT_GRID_SIZE },
+      { key: 'padding', label: 'Padding', type: 'number', min: 0, max: MAX_GRID_PADDING, step: 0.25, default: DEFAULT_GRID_PADDING },
+    ],
+    View: GridView,
+  },
+};
+
+/**
+ * Checks whether a string is the ID of a registered style.
+ *
+ * @param {string | null} id - The string to check, such as a URL parameter.
+ * @returns {boolean} Whether the string is a style ID.
+ */
+export const isIdenticonStyleId = (id: string | null): id is IdenticonStyleId =>
+  (IDENTICON_STYLE_IDS as readonly (string | null)[]).includes(id);
+
+/**
+ * Reads the value of an option from a raw value, such as a URL parameter.
+ *
+ * @param {StyleOptionSchema} option - The option.
+ * @param {string | number | boolean | null | undefined} raw - The raw value.
+ * @returns {number | boolean | undefined} The value, or undefined when it is missing, of the wrong type or out of range.
+ */
+const parseStyleOption = (option: StyleOptionSchema, raw: string | number | boolean | null | undefined) => {
+  if (option.type === 'boolean') {
+    const value = raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+    return typeof value === 'boolean' ? value : undefined;
+  }
+
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  const valid = typeof value === 'number'
+    && Number.isFinite(value)
+    && (option.min === undefined || value >= option.min)
+    && (option.max === undefined || value <= option.max)
+    && (option.step !== 1 || Number.isInteger(value));
+  return valid ? value : undefined;
+};
+
+/**
+ * Reads the option values of a style that are set in optional raw values, such as URL parameters, leaving out the
+ * options that are missing, of the wrong type or out of range.
+ *
+ * @param {IdenticonStyle} style - The style.
+ * @param {Record<string, string | number | boolean | null | undefined>} [values] - The raw option values.
+ * @returns {StyleOptionValues} The valid values that are set, which may not cover every option.
+ */
+export const parseStyleOptions = (
+  style: IdenticonStyle,
+  values: Record<string, string | number | boolean | null | undefined> = {},
+): StyleOptionValues =>
+  Object.fromEntries(style.options.flatMap((option) => {
+    const value = parseStyleOption(option, values[option.key]);
+    return value === undefined ? [] : [[option.key, value]];
+  }));
+
+/**
+ * Builds the option values of a style from optional raw values, such as URL parameters. This is the one place option
+ * defaults are decided.
+ *
+ * Values that are missing, of the wrong type or out of range are replaced by the option's default, so the result is
+ * always valid for the style. Options with a theme setting default to the theme's value when a theme is given, and
+ * only the values that are set override it.
+ *
+ * @param {IdenticonStyle} style - The style.
+ * @param {Record<string, string | number | boolean | null | undefined>} [values] - The raw option values.
+ * @param {IdenticonTheme} [theme] - The theme of the identicon.
+ * @returns {StyleOptionValues} A value for every option of the style.
+ */
+export const resolveStyleOptions = (
+  style: IdenticonStyle,
+  values: Record<string, string | number | boolean | null | undefined> = {},
+  theme?: IdenticonTheme,
+): StyleOptionValues =>
+  Object.fromEntries(style.options.map((option) => {
+    const themeValue = option.themeSetting && theme?.[option.themeSetting];
+    const fallback = typeof themeValue === 'number' || typeof themeValue === 'boolean' ? themeValue : option.default;
+    return [option.key, parseStyleOption(option, values[option.key]) ?? fallback];
+  }));
@@ -0,0 +1,244 @@
+/**
+ * identiconTheme.tsx
+ *
+ * This file defines identicon themes. A theme gathers every setting that shapes the look of geometric identicons: the
+ * spec version, the shape count, the set of geometries the hash picks from, the palette (see identiconPalette.tsx), the
+ * material and the strength of the post-processing effects. Themes opt in to spec version 3, with its hash-driven
+ * materials and lighting, through their version. Themes are plain JSON, so they can be saved to a file, shared and
+ * loaded again, e.g.
+ *
+ *   { "name": "Brand", "shapes": 6, "geometries": ["sphere", "torusKnot"], "palette": { "saturation": 90, "lightness": 45 }, ... }
+ *
+ * The default theme picks from the geometries, colors and material of the original identicons, but builds specs with
+ * the default spec version, whose hashes differ from those of the original site. A theme with version 1 reproduces the
+ * original identicons exactly. Like the hash itself, a theme never depends on the renderer, so the live view, the
+ * sidebar, downloads, animations, models and the server routes all draw the same shapes.
+ */
+
+import {
+  DEFAULT_MATERIAL,
+  DEFAULT_SHAPE_COUNT,
+  GEOMETRY_TYPES,
+  GeometryType,
+  IDENTICON_SPEC_VERSION,
+  IdenticonSpecOptions,
+  IdenticonSpecVersion,
+  MATERIAL_FAMILIES,
+  MaterialFamily,
+  MaterialSettings,
+  SUPPORTED_SPEC_VERSIONS,
+  WIREFRAME_RULES,
+  WireframeRule,
+} from './identiconSpec';
+import { DEFAULT_PALETTE, normalizeHexColor, PaletteSettings, validatePalette } from './identiconPalette';
+import { DEFAULT_EFFECT_SETTINGS, EffectSettings } from './effects';
+
+// Bounds of the shape count of a theme, matching the shape count option of the geometric style
+export const MIN_THEME_SHAPES = 1;
+export const MAX_THEME_SHAPES = 64;
+
+// Largest Bloom intensity and chromatic aberration offset a theme may set
+export const MAX_BLOOM_INTENSITY = 10;
+export const MAX_CHROMATIC_ABERRATION = 0.1;
+
+// Longest theme name, in characters
+export const MAX_THEME_NAME_LENGTH = 64;
+
+/**
+ * A named identicon theme.
+ *
+ * @interface IdenticonTheme
+ * @property {string} name - Name of the theme, shown in the designer and used for saved files.
+ * @property {IdenticonSpecVersion} version - Version of the identicon algorithm the shapes are built with.
+ * @property {number} shapes - Number of shapes, between MIN_THEME_SHAPES and MAX_THEME_SHAPES.
+ * @property {GeometryType[]} geometries - The geometries the hash picks from, in order, without duplicates.
+ * @property {PaletteSettings} palette - The colors of the shapes.
+ * @property {MaterialSettings} material - The opacity, wireframe rule and material families of the shapes.
+ * @property {EffectSettings} effects - The strength of Bloom and Chromatic Aberration.
+ */
+export interface IdenticonTheme {
+  name: string;
+  version: IdenticonSpecVersion;
+  shapes: number;
+  geometries: GeometryType[];
+  palette: PaletteSettings;
+  material: MaterialSettings;
+  effects: EffectSettings;
+}
+
+// Theme picking from the geometries, colors and material of the original identicons
+export const DEFAULT_THEME: IdenticonTheme = {
+  name: 'Default',
+  version: IDENTICON_SPEC_VERSION,
+  shapes: DEFAULT_SHAPE_COUNT,
+  geometries: [...GEOMETRY_TYPES],
+  palette: DEFAULT_PALETTE,
+  material: DEFAULT_MATERIAL,
+  effects: DEFAULT_EFFECT_SETTINGS,
+};
+
+/**
+ * Picks the settings of a theme that decide the shapes of an identicon spec.
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {IdenticonSpecOptions} The version, shape count, geometries, palette and material, for buildIdenticonSpec.
+ */
+export const themeSpecOptions = ({ version, shapes, geometries, palette, material }: IdenticonTheme): IdenticonSpecOptions =>
+  ({ version, shapes, geometries, palette, material });
+
+/**
+ * Reads a number of a theme, checking its bounds.
+ *
+ * @param {unknown} value - The value, or undefined to use the fallback.
+ * @param {string} path - Path of the value in the theme, for error messages.
+ * @param {number} fallback - Value used when the value is missing.
+ * @param {number} min - Smallest allowed value.
+ * @param {number} max - Largest allowed value.
+ * @param {boolean} [integer] - Whether the value must be an integer.
+ * @returns {number} The value.
+ */
+const themeNumber = (value: unknown, path: string, fallback: number, min: number, max: number, integer = false) => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new Error(`Theme ${path} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+  }
+  return value;
+};
+
+/**
+ * Reads an object of a theme.
+ *
+ * @param {unknown} value - The value, or undefined for an empty object.
+ * @param {string} path - Path of the value in the theme, for error messages.
+ * @returns {Record<string, unknown>} The object.
+ */
+const themeObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Theme ${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * Reads a theme from parsed JSON, such as a saved theme file or a `theme` query parameter.
+ *
+ * Missing settings fall back to those of DEFAULT_THEME, so a theme only needs the settings it changes. Invalid settings
+ * throw an Error whose message names the setting and can be shown to the user.
+ *
+ * @param {unknown} value - The parsed JSON.
+ * @returns {IdenticonTheme} The complete theme.
+ */
+export const parseTheme = (value: unknown): IdenticonTheme => {
+  const theme = themeObject(value, 'file');
+
+  const name = theme.name ?? DEFAULT_THEME.name;
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_THEME_NAME_LENGTH) {
+    throw new Error(`Theme name must be a non-empty string of at most ${MAX_THEME_NAME_LENGTH} characters`);
+  }
+
+  const version = theme.version ?? DEFAULT_THEME.version;
+  if (!(SUPPORTED_SPEC_VERSIONS as readonly unknown[]).includes(version)) {
+    throw new Error(`Theme version must be one of ${SUPPORTED_SPEC_VERSIONS.join(', ')}`);
+  }
+
+  const geometries = theme.geometries ?? DEFAULT_THEME.geometries;
+  if (
+    !Array.isArray(geometries)
+    || !geometries.length
+    || geometries.some((type, i) => !(GEOMETRY_TYPES as readonly unknown[]).includes(type) || geometries.indexOf(type) !== i)
+  ) {
+    throw new Error(`Theme geometries must be a non-empty list of distinct values among ${GEOMETRY_TYPES.join(', ')}`);
+  }
+
+  const paletteFields = themeObject(theme.palette, 'palette');
+  const material = themeObject(theme.material, 'material');
+  const effects = themeObject(theme.effects, 'effects');
+  const bloom = themeObject(effects.bloom, 'effects.bloom');
+
+  const opacity = material.opacity ?? DEFAULT_MATERIAL.opacity;
+  if (!Array.isArray(opacity) || opacity.length !== 2) {
+    throw new Error('Theme material.opacity must be a list of the smallest and largest opacity');
+  }
+  const [minOpacity, maxOpacity] = opacity.map((bound, i) => themeNumber(bound, `material.opacity[${i}]`, DEFAULT_MATERIAL.opacity[i], 0, 1));
+  if (minOpacity > maxOpacity) {
+    throw new Error('Theme material.opacity must list the smallest opacity first');
+  }
+
+  const wireframe = material.wireframe ?? DEFAULT_MATERIAL.wireframe;
+  if (!(WIREFRAME_RULES as readonly unknown[]).includes(wireframe)) {
+    throw new Error(`Theme material.wireframe must be one of ${WIREFRAME_RULES.join(', ')}`);
+  }
+
+  const families = material.families ?? DEFAULT_MATERIAL.families;
+  if (
+    !Array.isArray(families)
+    || !families.length
+    || families.some((family, i) => !(MATERIAL_FAMILIES as readonly unknown[]).includes(family) || families.indexOf(family) !== i)
+  ) {
+    throw new Error(`Theme material.families must be a non-empty list of distinct values among ${MATERIAL_FAMILIES.join(', ')}`);
+  }
+
+  const offset = effects.chromaticAberration ?? DEFAULT_EFFECT_SETTINGS.chromaticAberration;
+  if (!Array.isArray(offset) || offset.length !== 2) {
+    throw new Error('Theme effects.chromaticAberration must be a list of the horizontal and vertical offset');
+  }
+  const [offsetX, offsetY] = offset.map((axis, i) => themeNumber(axis, `effects.chromaticAberration[${i}]`, DEFAULT_EFFECT_SETTINGS.chromaticAberration[i], 0, MAX_CHROMATIC_ABERRATION));
+
+  // The palette is checked with the same rules as in buildIdenticonSpec
+  const palette = {
+    mode: paletteFields.mode ?? DEFAULT_PALETTE.mode,
+    saturation: paletteFields.saturation ?? DEFAULT_PALETTE.saturation,
+    lightness: paletteFields.lightness ?? DEFAULT_PALETTE.lightness,
+    curated: paletteFields.curated ?? DEFAULT_PALETTE.curated,
+    hues: paletteFields.hues ?? DEFAULT_PALETTE.hues,
+    brand: paletteFields.brand ?? DEFAULT_PALETTE.brand,
+    background: paletteFields.background ?? DEFAULT_PALETTE.background,
+    minContrast: paletteFields.minContrast ?? DEFAULT_PALETTE.minContrast,
+  } as PaletteSettings;
+  validatePalette(palette);
+
+  const defaultBloom = DEFAULT_EFFECT_SETTINGS.bloom;
+  return {
+    name: name.trim(),
+    version: version as IdenticonSpecVersion,
+    shapes: themeNumber(theme.shapes, 'shapes', DEFAULT_THEME.shapes, MIN_THEME_SHAPES, MAX_THEME_SHAPES, true),
+    geometries: geometries as GeometryType[],
+    palette: {
+      ...palette,
+      hues: [...palette.hues],
+      brand: palette.brand.map(normalizeHexColor),
+      background: normalizeHexColor(palette.background),
+    },
+    material: {
+      opacity: [minOpacity, maxOpacity],
+      wireframe: wireframe as WireframeRule,
+      families: [...families] as MaterialFamily[],
+    },
+    effects: {
+      bloom: {
+        luminanceThreshold: themeNumber(bloom.luminanceThreshold, 'effects.bloom.luminanceThreshold', defaultBloom.luminanceThreshold, 0, 1),
+        luminanceSmoothing: themeNumber(bloom.luminanceSmoothing, 'effects.bloom.luminanceSmoothing', defaultBloom.luminanceSmoothing, 0, 1),
+        intensity: themeNumber(bloom.intensity, 'effects.bloom.intensity', defaultBloom.intensity, 0, MAX_BLOOM_INTENSITY),
+      },
+      chromaticAberration: [offsetX, offsetY],
+    },
+  };
+};
+
+/**
+ * Serializes a theme as the JSON of a theme file.
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {string} The indented JSON.
+ */
+export const serializeTheme = (theme: IdenticonTheme): string => JSON.stringify(theme, null, 2);
+
+/**
+ * Builds the name of the file a theme is saved to, such as "brand.theme.json".
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {string} The file name.
+ */
+export const themeFilename = ({ name }: IdenticonTheme): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'identicon'}.theme.json`;
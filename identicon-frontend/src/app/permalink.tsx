@@ -0,0 +1,135 @@
+/**
+ * permalink.tsx
+ *
+ * This file contains the helpers behind identicon permalinks. A permalink is a `/i/[seed]` URL whose query parameters
+ * hold the rest of the view: the style and its options, such as `shapes`, and the `framing`, `rotate`, `effects` and
+ * `size` settings, e.g. `/i/Jane?style=geometric&shapes=12&framing=tight&rotate=true&effects=false&size=512`, and the
+ * `theme`, the JSON of the identicon theme, unless it is the default theme. The page keeps these parameters up to date
+ * as the view changes, so a permalink is the seed's path plus the page's query string.
+ * Embeds, the bare identicon for iframes, live at `/embed/[seed]` and accept the same query parameters. The oEmbed route
+ * at `/api/oembed` describes both as iframes, so sites that support oEmbed can embed a pasted link.
+ */
+
+import { FRAMING_MODES, FramingMode } from './framing';
+import { EXPORT_SIZES } from './exportRenderer';
+import { DEFAULT_THEME, IdenticonTheme, parseTheme, serializeTheme } from './identiconTheme';
+
+// Path under which permalinks live, followed by the seed
+export const PERMALINK_PATH = '/i';
+
+// Path under which embeds live, followed by the seed
+export const EMBED_PATH = '/embed';
+
+// Route answering oEmbed requests for permalinks and embeds
+export const OEMBED_PATH = '/api/oembed';
+
+/**
+ * Builds the URL of a seed under a path, followed by a query string.
+ *
+ * @param {string} origin - The origin of the site.
+ * @param {string} path - The path the seed is appended to.
+ * @param {string} seed - The seed string.
+ * @param {string} search - The query string, with or without its leading "?".
+ * @returns {string} The absolute URL.
+ */
+const seedUrl = (origin: string, path: string, seed: string, search: string) => {
+  const query = search.replace(/^\?/, '');
+  return `${origin}${path}/${encodeURIComponent(seed)}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Builds the permalink of a seed.
+ *
+ * @param {string} origin - The origin of the site, such as "https://example.com".
+ * @param {string} seed - The seed string.
+ * @param {string} search - The query string holding the view, with or without its leading "?".
+ * @returns {string} The absolute permalink.
+ */
+export const buildPermalink = (origin: string, seed: string, search: string): string =>
+  seedUrl(origin, PERMALINK_PATH, seed, search);
+
+/**
+ * Builds the embed URL of a seed.
+ *
+ * @param {string} origin - The origin of the site, such as "https://example.com".
+ * @param {string} seed - The seed string.
+ * @param {string} search - The query string holding the view, with or without its leading "?".
+ * @returns {string} The absolute embed URL.
+ */
+export const buildEmbedUrl = (origin: string, seed: string, search: string): string =>
+  seedUrl(origin, EMBED_PATH, seed, search);
+
+/**
+ * Builds the URL of the oEmbed description of a permalink or embed, which pages announce for oEmbed discovery.
+ *
+ * @param {string} origin - The origin of the site, such as "https://example.com".
+ * @param {string} url - The absolute permalink or embed URL.
+ * @returns {string} The absolute oEmbed URL.
+ */
+export const buildOEmbedUrl = (origin: string, url: string): string =>
+  `${origin}${OEMBED_PATH}?${new URLSearchParams({ url, format: 'json' })}`;
+
+/**
+ * Collects the query parameters a page receives, keeping the first value of repeated ones.
+ *
+ * @param {Record<string, string | string[] | undefined>} searchParams - The query parameters of the page.
+ * @returns {URLSearchParams} The query parameters.
+ */
+export const toSearchParams = (searchParams: Record<string, string | string[] | undefined>): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) params.set(key, first);
+  });
+  return params;
+};
+
+/**
+ * Parses the `framing` parameter.
+ *
+ * @param {string} raw - The recorded value.
+ * @returns {FramingMode | undefined} The framing mode, or undefined when the value is not one.
+ */
+export const parseFramingParam = (raw: string): FramingMode | undefined =>
+  (FRAMING_MODES as readonly string[]).includes(raw) ? raw as FramingMode : undefined;
+
+/**
+ * Parses the `size` parameter, the size of downloaded images.
+ *
+ * @param {string} raw - The recorded value.
+ * @returns {number | undefined} The size in pixels, or undefined when it is not one of EXPORT_SIZES.
+ */
+export const parseSizeParam = (raw: string): number | undefined =>
+  EXPORT_SIZES.includes(Number(raw)) ? Number(raw) : undefined;
+
+/**
+ * Parses a boolean parameter such as `rotate` or `effects`.
+ *
+ * @param {string} raw - The recorded value.
+ * @returns {boolean | undefined} The flag, or undefined when the value is neither "true" nor "false".
+ */
+export const parseBooleanParam = (raw: string): boolean | undefined =>
+  raw === 'true' ? true : raw === 'false' ? false : undefined;
+
+/**
+ * Parses the `theme` parameter, the JSON of an identicon theme.
+ *
+ * @param {string} raw - The recorded value.
+ * @returns {IdenticonTheme | undefined} The theme, or undefined when the value is not a valid theme.
+ */
+export const parseThemeParam = (raw: string): IdenticonTheme | undefined => {
+  try {
+    return parseTheme(JSON.parse(raw));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Records a theme as the `theme` parameter.
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {string | null} The compact JSON of the theme, or null for the default theme, which is not recorded.
+ */
+export const formatThemeParam = (theme: IdenticonTheme): string | null =>
+  serializeTheme(theme) === serializeTheme(DEFAULT_THEME) ? null : JSON.stringify(theme);
@@ -0,0 +1,53 @@
+/**
+ * png.test.tsx
+ *
+ * Tests of the PNG encoder, reading its output back chunk by chunk: the signature, the header fields and every chunk's
+ * checksum must be valid, and the image data must inflate back to the encoded pixels.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { inflateSync } from 'zlib';
+import { crc32 } from './crc32';
+import { encodePng } from './png';
+
+describe('encodePng', () => {
+  it('writes a valid PNG of the pixels', () => {
+    const width = 3;
+    const height = 2;
+    const pixels = new Uint8ClampedArray(Array.from({ length: width * height * 4 }, (_, i) => (i * 37) % 256));
+    const png = encodePng(pixels, width, height);
+
+    expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    // Read the chunks back, checking their checksums
+    const chunks: { type: string; data: Buffer }[] = [];
+    for (let offset = 8; offset < png.length;) {
+      const length = png.readUInt32BE(offset);
+      const typeAndData = png.subarray(offset + 4, offset + 8 + length);
+      expect(png.readUInt32BE(offset + 8 + length)).toBe(crc32(typeAndData));
+      chunks.push({ type: typeAndData.subarray(0, 4).toString('ascii'), data: typeAndData.subarray(4) });
+      offset += 12 + length;
+    }
+    expect(chunks.map(({ type }) => type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+
+    const [header, image, end] = chunks.map(({ data }) => data);
+    expect(header.readUInt32BE(0)).toBe(width);
+    expect(header.readUInt32BE(4)).toBe(height);
+    expect(Array.from(header.subarray(8))).toEqual([8, 6, 0, 0, 0]);
+    expect(end.length).toBe(0);
+
+    // Every scanline is the filter type 0 followed by the row of pixels
+    const raw = inflateSync(image);
+    expect(raw.length).toBe((width * 4 + 1) * height);
+    for (let y = 0; y < height; y++) {
+      const row = raw.subarray(y * (width * 4 + 1), (y + 1) * (width * 4 + 1));
+      expect(row[0]).toBe(0);
+      expect(Array.from(row.subarray(1))).toEqual(Array.from(pixels.subarray(y * width * 4, (y + 1) * width * 4)));
+    }
+  });
+
+  it('writes the known CRC of the IEND chunk', () => {
+    const png = encodePng(new Uint8ClampedArray(4), 1, 1);
+    expect(Array.from(png.subarray(-12))).toEqual([0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
+  });
+});
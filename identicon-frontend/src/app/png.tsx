@@ -0,0 +1,59 @@
+/**
+ * png.tsx
+ *
+ * This file contains a minimal PNG encoder for RGBA pixel buffers, used to serve identicons rendered on the server.
+ * It relies on Node's zlib module, so it can only be imported from server code.
+ */
+
+import { deflateSync } from 'zlib';
+import { crc32 } from './crc32';
+
+/**
+ * Builds a PNG chunk from its type and data.
+ *
+ * @param {string} type - The four-letter chunk type.
+ * @param {Buffer} data - The chunk data.
+ * @returns {Buffer} The length-prefixed, checksummed chunk.
+ */
+const chunk = (type: string, data: Buffer) => {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+/**
+ * Encodes straight RGBA pixels as a PNG image.
+ *
+ * @param {Uint8ClampedArray} pixels - RGBA pixels, row by row from the top left.
+ * @param {number} width - Width of the image in pixels.
+ * @param {number} height - Height of the image in pixels.
+ * @returns {Buffer} The PNG file contents.
+ */
+export const encodePng = (pixels: Uint8ClampedArray, width: number, height: number): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // Bit depth
+  header[9] = 6;  // Color type: RGBA
+  header[10] = 0; // Compression: deflate
+  header[11] = 0; // Filter method: adaptive
+  header[12] = 0; // Interlace: none
+
+  // Every scanline is prefixed with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    Buffer.from(pixels.buffer, pixels.byteOffset + y * stride, stride).copy(raw, y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
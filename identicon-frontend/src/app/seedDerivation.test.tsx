@@ -0,0 +1,46 @@
+/**
+ * seedDerivation.test.tsx
+ *
+ * Tests of the seed derivation schemes: "v0" must keep reproducing the hashes of the original identicons, and "v1" must
+ * keep inputs, shapes, namespaces and purposes apart where "v0" let them collide.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { deriveShapeHash } from './seedDerivation';
+
+describe('deriveShapeHash', () => {
+  it('reproduces the original hashes with v0', () => {
+    // SHA-256 of the hexadecimal SHA-256 of "Jane" followed by the shape index, as the original identicons hashed them
+    expect(deriveShapeHash('Jane', 0, { derivation: 'v0' })).toBe('e0599c2c0ce2ce0cd0a593f1e1363135f842a13070a913a54bcc164213387c87');
+    expect(deriveShapeHash('Jane', 1, { derivation: 'v0' })).toBe('d5da03f7cb2ffbc667be3b9394f04e4398375c3ea2b60075c4e63af98c673ee3');
+    expect(deriveShapeHash('Jane', 10, { derivation: 'v0' })).toBe('e71ac1897ea9ae91e440a8743ce97c03e94da6b1aadd545d9989176d446130c1');
+  });
+
+  it('lets inputs and shape indices collide with v0 only', () => {
+    expect(deriveShapeHash('ab1', 0, { derivation: 'v0' })).toBe(deriveShapeHash('ab', 10, { derivation: 'v0' }));
+    expect(deriveShapeHash('ab1', 0)).not.toBe(deriveShapeHash('ab', 10));
+  });
+
+  it('separates namespaces with v1', () => {
+    const hashes = [undefined, 'product-a', 'product-b', 'product-a\u0000'].map((namespace) => deriveShapeHash('Jane', 0, { namespace }));
+    expect(new Set(hashes).size).toBe(hashes.length);
+    expect(() => deriveShapeHash('Jane', 0, { namespace: '' })).toThrow('Namespaces must not be empty');
+  });
+
+  it('separates purposes and keys with v1', () => {
+    const hashes = [
+      deriveShapeHash('Jane', 0),
+      deriveShapeHash('Jane', 0, { purpose: 'material' }),
+      deriveShapeHash('Jane', 0, { purpose: 'lighting' }),
+      deriveShapeHash('Jane', 0, { key: 'secret' }),
+      deriveShapeHash('Jane', 0, { key: 'another-secret' }),
+    ];
+    expect(new Set(hashes).size).toBe(hashes.length);
+  });
+
+  it('rejects options v0 does not support', () => {
+    expect(() => deriveShapeHash('Jane', 0, { derivation: 'v0', namespace: 'product-a' })).toThrow('namespaces');
+    expect(() => deriveShapeHash('Jane', 0, { derivation: 'v0', key: 'secret' })).toThrow('keys');
+    expect(() => deriveShapeHash('Jane', 0, { derivation: 'v0', purpose: 'material' })).toThrow('shape hashes');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * seedDerivation.tsx
+ *
+ * This file defines how the per-shape hashes of an identicon are derived from the input string.
+ *
+ * Two schemes are available:
+ * - "v0" reproduces the original behaviour, SHA-256(SHA-256(input + index)). Joining the input and the index is ambiguous,
+ *   so "ab1" with shape 0 and "ab" with shape 10 share a hash. It is kept only so existing avatars can be regenerated.
+ * - "v1" hashes an unambiguous, length-prefixed encoding of a domain tag, an optional namespace, the input and a
+ *   32-bit shape counter with a single SHA-256, so different inputs, shapes or namespaces can never collide by construction.
+ *
+ * "v1" also derives hashes for other purposes than shapes, such as the materials and lighting of version 3 specs, under
+ * domain tags of their own, so they never share bytes with the shape hashes that grid identicons also read.
+ *
+ * When a secret key is supplied, "v1" uses HMAC-SHA256 over the same message instead. Without the key nobody can
+ * precompute identicons for a list of usernames or emails, so keyed hashes must only ever be computed on the server.
+ */
+
+import CryptoJS from 'crypto-js';
+
+/**
+ * The available seed derivation schemes.
+ */
+export const SEED_DERIVATIONS = ['v0', 'v1'] as const;
+
+export type SeedDerivation = typeof SEED_DERIVATIONS[number];
+
+/**
+ * The purposes hashes are derived for: the shapes themselves, their materials, and the light rig.
+ */
+export const SEED_PURPOSES = ['shape', 'material', 'lighting'] as const;
+
+export type SeedPurpose = typeof SEED_PURPOSES[number];
+
+// Domain separation tags prefixed to v1 messages, so hashes of different purposes never coincide
+const V1_DOMAIN_TAGS: Record<SeedPurpose, string> = {
+  shape: 'identicon-shape-seed/v1',
+  material: 'identicon-material-seed/v1',
+  lighting: 'identicon-lighting-seed/v1',
+};
+
+/**
+ * Options accepted by deriveShapeHash.
+ *
+ * @interface SeedDerivationOptions
+ * @property {SeedDerivation} [derivation] - The derivation scheme to use. Defaults to "v1".
+ * @property {string} [namespace] - Optional namespace or salt separating identicons of different products. Must not be empty. Only supported by "v1".
+ * @property {string} [key] - Optional secret key switching to HMAC-SHA256. Only supported by "v1".
+ * @property {SeedPurpose} [purpose] - What the hash is derived for. Defaults to "shape"; other purposes are only supported by "v1".
+ */
+export interface SeedDerivationOptions {
+  derivation?: SeedDerivation;
+  namespace?: string;
+  key?: string;
+  purpose?: SeedPurpose;
+}
+
+/**
+ * Encodes a number as a 4-byte big-endian word array.
+ *
+ * @param {number} value - The number to encode, truncated to an unsigned 32-bit integer.
+ * @returns {CryptoJS.lib.WordArray} The encoded number.
+ */
+const encodeUint32 = (value: number) => CryptoJS.lib.WordArray.create([value >>> 0], 4);
+
+/**
+ * Encodes a string as its UTF-8 byte length followed by its UTF-8 bytes.
+ *
+ * @param {string} value - The string to encode.
+ * @returns {CryptoJS.lib.WordArray} The length-prefixed string.
+ */
+const encodeField = (value: string) => {
+  const bytes = CryptoJS.enc.Utf8.parse(value);
+  return encodeUint32(bytes.sigBytes).concat(bytes);
+};
+
+/**
+ * Derives the hash for one shape of an identicon.
+ *
+ * @param {string} inputString - The input string, typically a username.
+ * @param {number} index - The index of the shape within the identicon.
+ * @param {SeedDerivationOptions} [options] - The derivation scheme, namespace, key and purpose.
+ * @returns {string} The hexadecimal SHA-256 (or HMAC-SHA256) hash used to build the shape.
+ */
+export const deriveShapeHash = (inputString: string, index: number, options: SeedDerivationOptions = {}): string => {
+  const { derivation = 'v1', namespace, key, purpose = 'shape' } = options;
+
+  switch (derivation) {
+    case 'v0':
+      if (namespace !== undefined) {
+        throw new Error('The v0 seed derivation does not support namespaces');
+      }
+      if (key !== undefined) {
+        throw new Error('The v0 seed derivation does not support keys');
+      }
+      if (purpose !== 'shape') {
+        throw new Error('The v0 seed derivation only derives shape hashes');
+      }
+      // Same as hashing generateHash from utils.tsx, inlined so this module does not load the exporters utils imports
+      return CryptoJS.SHA256(CryptoJS.SHA256(inputString + index).toString()).toString();
+    case 'v1': {
+      if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+        throw new Error(`Shape index out of range: ${index}`);
+      }
+      // An empty namespace would be encoded like no namespace at all
+      if (namespace === '') {
+        throw new Error('Namespaces must not be empty');
+      }
+      const message = encodeField(V1_DOMAIN_TAGS[purpose])
+        .concat(encodeField(namespace ?? ''))
+        .concat(encodeField(inputString))
+        .concat(encodeUint32(index));
+      return key !== undefined ? CryptoJS.HmacSHA256(message, key).toString() : CryptoJS.SHA256(message).toString();
+    }
+    default:
+      throw new Error(`Unknown seed derivation: ${derivation}`);
+  }
+};
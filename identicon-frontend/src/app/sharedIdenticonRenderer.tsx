@@ -0,0 +1,267 @@
+/**
+ * sharedIdenticonRenderer.tsx
+ *
+ * This file draws many identicons through a single WebGL renderer. Browsers only keep around 16 WebGL contexts alive, so
+ * giving every avatar in a long list its own `<Canvas>` leaves most of them blank. Instead, each identicon is a tile: a
+ * plain 2D canvas with its own scene, camera and orbit controls. The shared renderer draws each tile through one effect
+ * composer, with the same Bloom and Chromatic Aberration as the live view, and copies the result into the tile's canvas.
+ *
+ * Frames are only drawn on demand: a tile is redrawn when its spec, size or camera changes, and on every frame while it
+ * rotates. Tiles scrolled out of view are skipped, and browsers stop animation frames in background tabs, so the cost
+ * depends on the number of visible tiles only and drops to nothing when nothing moves.
+ */
+
+import { Clock, HalfFloatType, Mesh, NoToneMapping, PerspectiveCamera, Scene, Vector2, WebGLRenderer } from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BloomEffect, ChromaticAberrationEffect, EffectComposer, EffectPass, RenderPass } from 'postprocessing';
+import { IdenticonSpec } from './identiconSpec';
+import { buildIdenticonScene, disposeIdenticonScene } from './identiconScene';
+import { createIdenticonCamera } from './identiconProjection';
+import { BLOOM_SETTINGS, BloomLook, DEFAULT_EFFECT_SETTINGS } from './effects';
+import { wobbleRotation } from './animation';
+import { DEFAULT_FRAMING_MODE, FIXED_FRAMING, frameIdenticon } from './framing';
+
+/**
+ * An identicon drawn by a shared renderer.
+ *
+ * @interface SharedIdenticonTile
+ * @property {function} update - Sets the spec the tile shows, or null to show nothing, and whether its shapes rotate.
+ * @property {function} dispose - Removes the tile from the renderer and releases its scene and controls.
+ */
+export interface SharedIdenticonTile {
+  update: (spec: IdenticonSpec | null, rotate: boolean) => void;
+  dispose: () => void;
+}
+
+/**
+ * A renderer drawing any number of identicon tiles with one WebGL context.
+ *
+ * @interface SharedIdenticonRenderer
+ * @property {function} addTile - Starts drawing an identicon into a 2D canvas and returns its tile.
+ * @property {function} dispose - Stops drawing and releases the WebGL context.
+ */
+export interface SharedIdenticonRenderer {
+  addTile: (canvas: HTMLCanvasElement) => SharedIdenticonTile;
+  dispose: () => void;
+}
+
+/**
+ * Internal state of a tile.
+ *
+ * @interface TileState
+ * @property {HTMLCanvasElement} canvas - The 2D canvas the tile is copied into.
+ * @property {CanvasRenderingContext2D} context - The 2D context of the canvas.
+ * @property {PerspectiveCamera} camera - The tile's camera, moved by its orbit controls.
+ * @property {OrbitControls} controls - Orbit controls listening to pointer events on the canvas.
+ * @property {IdenticonSpec | null} spec - The spec the tile shows.
+ * @property {Scene | null} scene - The scene built from the spec.
+ * @property {boolean} rotate - Whether the shapes rotate.
+ * @property {boolean} visible - Whether the canvas is in view.
+ * @property {boolean} dirty - Whether the tile has changed since it was last drawn.
+ */
+interface TileState {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  camera: PerspectiveCamera;
+  controls: OrbitControls;
+  spec: IdenticonSpec | null;
+  scene: Scene | null;
+  rotate: boolean;
+  visible: boolean;
+  dirty: boolean;
+}
+
+/**
+ * Creates a renderer drawing identicon tiles through one WebGL context and one effect composer.
+ *
+ * @param {[number, number]} chromaticAberrationOffset - Offset of the chromatic aberration applied to every tile.
+ * @param {BloomLook} [bloom] - Threshold, smoothing and intensity of the Bloom effect applied to every tile. Defaults to those of the default theme.
+ * @returns {SharedIdenticonRenderer} The renderer. Call dispose when it is no longer needed.
+ */
+export const createSharedIdenticonRenderer = (
+  chromaticAberrationOffset: [number, number],
+  bloom: BloomLook = DEFAULT_EFFECT_SETTINGS.bloom,
+): SharedIdenticonRenderer => {
+  const renderer = new WebGLRenderer({ alpha: true });
+  renderer.setPixelRatio(1);
+  // Matches the effect composer of the live view, which disables tone mapping
+  renderer.toneMapping = NoToneMapping;
+  renderer.setClearColor(0x000000, 0);
+
+  const placeholderCamera = createIdenticonCamera();
+  const composer = new EffectComposer(renderer, { multisampling: 8, frameBufferType: HalfFloatType });
+  composer.addPass(new RenderPass(new Scene(), placeholderCamera));
+  composer.addPass(new EffectPass(placeholderCamera, new BloomEffect({ ...BLOOM_SETTINGS, ...bloom })));
+  composer.addPass(new EffectPass(placeholderCamera, new ChromaticAberrationEffect({
+    offset: new Vector2(...chromaticAberrationOffset),
+    radialModulation: false,
+    modulationOffset: 0.0,
+  })));
+
+  const tiles = new Set<TileState>();
+  const tileByCanvas = new Map<Element, TileState>();
+  const clock = new Clock();
+
+  // Pending animation frame, if any
+  let frame: number | null = null;
+
+  /**
+   * Schedules a frame, unless one is already pending.
+   */
+  const requestDraw = () => {
+    if (frame === null) frame = requestAnimationFrame(drawFrame);
+  };
+
+  /**
+   * Marks a tile as changed and schedules a frame to redraw it.
+   *
+   * @param {TileState | undefined} tile - The changed tile.
+   */
+  const invalidateTile = (tile: TileState | undefined) => {
+    if (!tile) return;
+    tile.dirty = true;
+    requestDraw();
+  };
+
+  // Tracks which tiles are in view, so offscreen ones cost nothing
+  const intersectionObserver = new IntersectionObserver((entries) => {
+    entries.forEach((entry) => {
+      const tile = tileByCanvas.get(entry.target);
+      if (!tile) return;
+      tile.visible = entry.isIntersecting;
+      if (tile.visible) invalidateTile(tile);
+    });
+  });
+
+  // Redraws tiles whose canvas changes size
+  const resizeObserver = new ResizeObserver((entries) => {
+    entries.forEach((entry) => invalidateTile(tileByCanvas.get(entry.target)));
+  });
+
+  /**
+   * Draws one tile through the composer and copies the result into its canvas.
+   *
+   * @param {TileState} tile - The tile to draw.
+   * @param {number} time - Elapsed time in seconds, driving the rotation wobble.
+   */
+  const drawTile = (tile: TileState, time: number) => {
+    const { canvas, context, camera, scene, spec } = tile;
+    const width = Math.round(canvas.clientWidth * window.devicePixelRatio);
+    const height = Math.round(canvas.clientHeight * window.devicePixelRatio);
+    if (!width || !height) return;
+
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    if (camera.aspect !== width / height) {
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+    }
+
+    context.clearRect(0, 0, width, height);
+    if (!scene || !spec) return;
+
+    if (tile.rotate) {
+      // The scene holds one mesh per shape, in the same order as the spec
+      scene.children
+        .filter((object): object is Mesh => object instanceof Mesh)
+        .forEach((mesh, i) => mesh.rotation.set(...wobbleRotation(spec.shapes[i].rotation, time)));
+    }
+
+    // Tiles usually share a size, in which case the composer's buffers are kept
+    const size = renderer.getSize(new Vector2());
+    if (size.width !== width || size.height !== height) {
+      composer.setSize(width, height, false);
+    }
+
+    composer.setMainScene(scene);
+    composer.setMainCamera(camera);
+    composer.render();
+    context.drawImage(renderer.domElement, 0, 0);
+  };
+
+  /**
+   * Draws the visible tiles that changed or rotate, and keeps requesting frames while any of them rotates.
+   */
+  function drawFrame() {
+    frame = null;
+    const time = clock.getElapsedTime();
+    let animating = false;
+    tiles.forEach((tile) => {
+      if (!tile.visible || !(tile.dirty || tile.rotate)) return;
+      drawTile(tile, time);
+      tile.dirty = false;
+      animating ||= tile.rotate && tile.scene !== null;
+    });
+    if (animating) requestDraw();
+  }
+
+  const addTile = (canvas: HTMLCanvasElement): SharedIdenticonTile => {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get 2D context for the identicon tile');
+    }
+
+    const camera = createIdenticonCamera();
+    const tile: TileState = {
+      canvas,
+      context,
+      camera,
+      controls: new OrbitControls(camera, canvas),
+      spec: null,
+      scene: null,
+      rotate: false,
+      visible: false,
+      dirty: true,
+    };
+    tile.controls.addEventListener('change', () => invalidateTile(tile));
+    tiles.add(tile);
+    tileByCanvas.set(canvas, tile);
+    intersectionObserver.observe(canvas);
+    resizeObserver.observe(canvas);
+
+    return {
+      update: (spec, rotate) => {
+        tile.rotate = rotate;
+        if (spec !== tile.spec) {
+          if (tile.scene) disposeIdenticonScene(tile.scene);
+          tile.spec = spec;
+          tile.scene = spec && buildIdenticonScene(spec);
+
+          // Frame the new shapes like the live view does, which also resets any orbiting
+          const framing = spec ? frameIdenticon(spec, DEFAULT_FRAMING_MODE) : FIXED_FRAMING;
+          camera.position.set(...framing.position);
+          tile.controls.target.set(...framing.target);
+          tile.controls.update();
+        }
+        invalidateTile(tile);
+      },
+      dispose: () => {
+        intersectionObserver.unobserve(canvas);
+        resizeObserver.unobserve(canvas);
+        tiles.delete(tile);
+        tileByCanvas.delete(canvas);
+        tile.controls.dispose();
+        if (tile.scene) disposeIdenticonScene(tile.scene);
+      },
+    };
+  };
+
+  const dispose = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    intersectionObserver.disconnect();
+    resizeObserver.disconnect();
+    tiles.forEach((tile) => {
+      tile.controls.dispose();
+      if (tile.scene) disposeIdenticonScene(tile.scene);
+    });
+    tiles.clear();
+    tileByCanvas.clear();
+    composer.dispose();
+    renderer.dispose();
+    renderer.forceContextLoss();
+  };
+
+  return { addTile, dispose };
+};
@@ -0,0 +1,153 @@
+/**
+ * softwareRenderer.tsx
+ *
+ * This file rasterizes projected identicon shapes into an RGBA pixel buffer in plain JavaScript. It draws the shapes
+ * back to front, blending each one as a whole with its opacity, and supersamples for anti-aliasing, so identicon images
+ * can be produced on a server or anywhere else without a GPU.
+ */
+
+import { ProjectedShape } from './identiconProjection';
+
+/**
+ * Options accepted by rasterizeIdenticon.
+ *
+ * @interface RasterOptions
+ * @property {number} size - Width and height of the image in pixels.
+ * @property {[number, number, number] | null} [background] - Opaque background color as sRGB channels between 0 and 255, or null for a transparent background.
+ * @property {number} [supersample] - Samples per pixel along each axis. Defaults to 2.
+ * @property {number} [lineWidth] - Width of wireframe lines in pixels. Defaults to 1.
+ */
+export interface RasterOptions {
+  size: number;
+  background?: [number, number, number] | null;
+  supersample?: number;
+  lineWidth?: number;
+}
+
+/**
+ * Marks the samples covered by a convex polygon in a coverage layer.
+ *
+ * A sample is covered when its center lies inside every edge of the polygon, whatever the polygon's winding.
+ *
+ * @param {Uint8Array} coverage - One entry per sample, set to 1 when covered.
+ * @param {number} width - Width and height of the sample grid.
+ * @param {[number, number][]} points - Polygon corners in sample coordinates.
+ */
+const coverConvexPolygon = (coverage: Uint8Array, width: number, points: [number, number][]) => {
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const minX = Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(width - 1, Math.ceil(Math.max(...ys)));
+  if (minX > maxX || minY > maxY) return;
+
+  // Signed area gives the winding, so the edge tests below work for both orientations
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[(i + 1) % points.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  if (area === 0) return;
+  const sign = area > 0 ? 1 : -1;
+
+  for (let y = minY; y <= maxY; y++) {
+    const sy = y + 0.5;
+    for (let x = minX; x <= maxX; x++) {
+      const sx = x + 0.5;
+      let inside = true;
+      for (let i = 0; i < points.length && inside; i++) {
+        const [x0, y0] = points[i];
+        const [x1, y1] = points[(i + 1) % points.length];
+        inside = sign * ((x1 - x0) * (sy - y0) - (y1 - y0) * (sx - x0)) >= 0;
+      }
+      if (inside) coverage[y * width + x] = 1;
+    }
+  }
+};
+
+/**
+ * Rasterizes projected identicon shapes into an image.
+ *
+ * @param {ProjectedShape[]} shapes - The shapes, sorted back to front as returned by projectIdenticon.
+ * @param {RasterOptions} options - Image size, background and quality options.
+ * @returns {Uint8ClampedArray} Straight (non-premultiplied) RGBA pixels, row by row from the top left.
+ */
+export const rasterizeIdenticon = (shapes: ProjectedShape[], options: RasterOptions): Uint8ClampedArray => {
+  const { size, background = null, supersample = 2, lineWidth = 1 } = options;
+  const width = size * supersample;
+
+  // Premultiplied RGBA samples, channels between 0 and 1
+  const samples = new Float32Array(width * width * 4);
+  const coverage = new Uint8Array(width * width);
+
+  if (background) {
+    for (let i = 0; i < samples.length; i += 4) {
+      samples[i] = background[0] / 255;
+      samples[i + 1] = background[1] / 255;
+      samples[i + 2] = background[2] / 255;
+      samples[i + 3] = 1;
+    }
+  }
+
+  const halfLine = (lineWidth * supersample) / 2;
+  shapes.forEach((shape) => {
+    coverage.fill(0);
+    shape.primitives.forEach((primitive) => {
+      const points = primitive.points.map(([x, y]): [number, number] => [x * width, y * width]);
+
+      if (!shape.wireframe) {
+        coverConvexPolygon(coverage, width, points);
+        return;
+      }
+
+      // Lines are drawn as thin quads around the segment
+      const [[x0, y0], [x1, y1]] = points;
+      const length = Math.hypot(x1 - x0, y1 - y0);
+      if (length === 0) return;
+      const nx = (-(y1 - y0) / length) * halfLine;
+      const ny = ((x1 - x0) / length) * halfLine;
+      coverConvexPolygon(coverage, width, [[x0 + nx, y0 + ny], [x1 + nx, y1 + ny], [x1 - nx, y1 - ny], [x0 - nx, y0 - ny]]);
+    });
+
+    // Blend the covered samples with the shape's color and opacity
+    const [r, g, b] = shape.color.map((c) => c / 255);
+    const a = shape.opacity;
+    for (let i = 0; i < coverage.length; i++) {
+      if (!coverage[i]) continue;
+      const offset = i * 4;
+      samples[offset] = r * a + samples[offset] * (1 - a);
+      samples[offset + 1] = g * a + samples[offset + 1] * (1 - a);
+      samples[offset + 2] = b * a + samples[offset + 2] * (1 - a);
+      samples[offset + 3] = a + samples[offset + 3] * (1 - a);
+    }
+  });
+
+  // Average the samples of each pixel and convert back to straight alpha
+  const pixels = new Uint8ClampedArray(size * size * 4);
+  const count = supersample * supersample;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = 0; sy < supersample; sy++) {
+        for (let sx = 0; sx < supersample; sx++) {
+          const offset = ((y * supersample + sy) * width + x * supersample + sx) * 4;
+          r += samples[offset];
+          g += samples[offset + 1];
+          b += samples[offset + 2];
+          a += samples[offset + 3];
+        }
+      }
+      const offset = (y * size + x) * 4;
+      if (a > 0) {
+        pixels[offset] = (r / a) * 255;
+        pixels[offset + 1] = (g / a) * 255;
+        pixels[offset + 2] = (b / a) * 255;
+      }
+      pixels[offset + 3] = (a / count) * 255;
+    }
+  }
+
+  return pixels;
+};
@@ -0,0 +1,35 @@
+/**
+ * svgRenderer.test.tsx
+ *
+ * Tests keeping SVG identicons small: filled shapes must be drawn as their outline and wireframes as polylines, rather
+ * than as one polygon or line per triangle, whatever the number of triangles of their geometry.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildIdenticonSpec, DEFAULT_MATERIAL } from './identiconSpec';
+import { renderIdenticonSvg } from './svgRenderer';
+
+// Largest SVG document an identicon may produce, in bytes
+const MAX_SVG_BYTES = 32 * 1024;
+
+describe('renderIdenticonSvg', () => {
+  it.each([128, 1024])('keeps %i pixel documents under the size limit', (size) => {
+    for (let i = 0; i < 50; i++) {
+      const svg = renderIdenticonSvg(buildIdenticonSpec(`user${i}`), { size });
+      expect(svg.length, `identicon of user${i}`).toBeLessThan(MAX_SVG_BYTES);
+    }
+  });
+
+  it('draws a filled sphere as a single outline', () => {
+    const spec = buildIdenticonSpec('Jane', { shapes: 1, geometries: ['sphere'], material: { ...DEFAULT_MATERIAL, wireframe: 'none' } });
+    const [, d] = /<path d="([^"]*)"/.exec(renderIdenticonSvg(spec)) ?? [];
+    expect(d.match(/M/g)).toHaveLength(1);
+  });
+
+  it('draws a wireframe torus knot with far fewer moves than edges', () => {
+    const spec = buildIdenticonSpec('Jane', { shapes: 1, geometries: ['torusKnot'], material: { ...DEFAULT_MATERIAL, wireframe: 'all' } });
+    const [, d] = /<path d="([^"]*)"/.exec(renderIdenticonSvg(spec)) ?? [];
+    const points = d.split(/[ML]/).join(' ').trim().split(/\s+/).length / 2;
+    expect(d.match(/M/g)?.length).toBeLessThan(points / 4);
+  });
+});
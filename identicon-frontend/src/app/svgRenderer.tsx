@@ -0,0 +1,198 @@
+/**
+ * svgRenderer.tsx
+ *
+ * This file renders geometric identicons as SVG documents. The shapes are projected with the same camera, geometry and
+ * lighting as the live scene, so the vector output matches what the browser draws apart from post-processing effects.
+ * The renderer returns a plain string and runs in Node as well as in the browser.
+ */
+
+import { IdenticonSpec } from './identiconSpec';
+import { projectIdenticon, ProjectedShape } from './identiconProjection';
+import { DEFAULT_FRAMING_MODE, frameIdenticon, FramingMode } from './framing';
+
+/**
+ * Options accepted by renderIdenticonSvg.
+ *
+ * @interface SvgOptions
+ * @property {number} [size] - Width and height of the SVG in pixels. Defaults to 256.
+ * @property {[number, number, number] | null} [background] - Background color as sRGB channels between 0 and 255, or null for a transparent background.
+ * @property {number} [lineWidth] - Width of wireframe lines in pixels. Defaults to 1.
+ * @property {FramingMode} [framing] - How the camera is fitted to the shapes. Defaults to DEFAULT_FRAMING_MODE.
+ */
+export interface SvgOptions {
+  size?: number;
+  background?: [number, number, number] | null;
+  lineWidth?: number;
+  framing?: FramingMode;
+}
+
+/**
+ * Formats a number for SVG output with at most two decimals, so documents stay small and diff cleanly.
+ *
+ * @param {number} value - The number to format.
+ * @returns {string} The formatted number.
+ */
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Formats an sRGB color as a CSS rgb() string.
+ *
+ * @param {[number, number, number]} color - The color channels between 0 and 255.
+ * @returns {string} The CSS color.
+ */
+const formatColor = ([r, g, b]: [number, number, number]) => `rgb(${r},${g},${b})`;
+
+// Points are snapped to this fraction of a pixel, far below what can be seen. Triangles then share their common edges
+// exactly, and triangles and edges smaller than the grid collapse to nothing.
+const POINT_GRID = 8;
+
+/**
+ * Snaps a point to the point grid and formats it as SVG coordinates.
+ *
+ * @param {[number, number]} point - The point in normalized image coordinates.
+ * @param {number} size - Width and height of the SVG in pixels.
+ * @returns {string} The "x y" coordinates in pixels.
+ */
+const formatPoint = ([x, y]: [number, number], size: number) =>
+  `${formatNumber(Math.round(x * size * POINT_GRID) / POINT_GRID)} ${formatNumber(Math.round(y * size * POINT_GRID) / POINT_GRID)}`;
+
+/**
+ * Builds the directed edges between formatted points, with their multiplicity, so they can be followed from point to
+ * point. Each edge is listed under the point it starts from.
+ *
+ * @param {[string, string, number][]} edges - The edges as start point, end point and number of times they are used.
+ * @returns {Map<string, string[]>} The end points of the edges leaving each point, repeated by multiplicity.
+ */
+const edgeAdjacency = (edges: [string, string, number][]) => {
+  const adjacency = new Map<string, string[]>();
+  edges.forEach(([from, to, count]) => {
+    const targets = adjacency.get(from) ?? [];
+    for (let i = 0; i < count; i++) targets.push(to);
+    adjacency.set(from, targets);
+  });
+  return adjacency;
+};
+
+/**
+ * Traces the outline of a filled shape from its triangles.
+ *
+ * Front faces all wind the same way, so the coverage of the shape is the sum of its triangles, and its outline is the
+ * sum of their edges, in which every edge shared by two neighbouring triangles cancels out with its reverse. With the
+ * nonzero fill rule the outline covers exactly the points covered by a triangle, while a sphere or a torus knot made of
+ * thousands of tiny triangles is reduced to its silhouette and the edges where it overlaps itself.
+ *
+ * @param {[number, number][][]} triangles - The front-facing triangles in normalized image coordinates.
+ * @param {number} size - Width and height of the SVG in pixels.
+ * @returns {string} The path data of the outline, as closed loops.
+ */
+const traceOutline = (triangles: [number, number][][], size: number) => {
+  // Net use of every edge, counted positively from the smaller point to the larger and negatively the other way
+  const netEdges = new Map<string, [string, string, number]>();
+  triangles.forEach((triangle) => {
+    const points = triangle.map((point) => formatPoint(point, size));
+    points.forEach((from, i) => {
+      const to = points[(i + 1) % points.length];
+      if (from === to) return;
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      const edge = netEdges.get(key) ?? (from < to ? [from, to, 0] : [to, from, 0]);
+      edge[2] += from < to ? 1 : -1;
+      netEdges.set(key, edge);
+    });
+  });
+
+  // The remaining edges form closed loops: as many edges leave every point as reach it
+  const adjacency = edgeAdjacency(Array.from(netEdges.values())
+    .filter(([, , count]) => count !== 0)
+    .map(([a, b, count]): [string, string, number] => (count > 0 ? [a, b, count] : [b, a, -count])));
+
+  let d = '';
+  adjacency.forEach((targets, start) => {
+    while (targets.length) {
+      const loop = [];
+      for (let point = targets.pop() as string; point !== start; point = (adjacency.get(point) as string[]).pop() as string) {
+        loop.push(point);
+      }
+      d += `M${start}L${loop.join(' ')}Z`;
+    }
+  });
+  return d;
+};
+
+/**
+ * Joins the edges of a wireframe shape into polylines, so points shared by consecutive edges are written once.
+ *
+ * @param {[number, number][][]} edges - The edges in normalized image coordinates.
+ * @param {number} size - Width and height of the SVG in pixels.
+ * @returns {string} The path data of the polylines.
+ */
+const traceEdges = (edges: [number, number][][], size: number) => {
+  // Every edge can be followed both ways; the other direction is removed once an edge is drawn
+  const adjacency = edgeAdjacency(edges
+    .map(([a, b]) => [formatPoint(a, size), formatPoint(b, size)])
+    .filter(([a, b]) => a !== b)
+    .flatMap(([a, b]): [string, string, number][] => [[a, b, 1], [b, a, 1]]));
+  const removeEdge = (from: string, to: string) => {
+    const targets = adjacency.get(from) as string[];
+    targets.splice(targets.indexOf(to), 1);
+  };
+
+  let d = '';
+  adjacency.forEach((targets, start) => {
+    while (targets.length) {
+      const line = [];
+      let point = start;
+      for (let next: string | undefined = targets[0]; next !== undefined; next = (adjacency.get(point) as string[])[0]) {
+        removeEdge(point, next);
+        removeEdge(next, point);
+        line.push(next);
+        point = next;
+      }
+      d += `M${start}L${line.join(' ')}`;
+    }
+  });
+  return d;
+};
+
+/**
+ * Renders one projected shape as an SVG path.
+ *
+ * A filled shape is drawn as the outline of its triangles, and a wireframe shape as polylines joining its edges, so the
+ * document grows with what is visible rather than with the number of triangles, and the hairline seams separate
+ * triangles would leave never appear. The opacity is applied to the path as a whole, like the live scene blends each
+ * shape as a whole.
+ *
+ * @param {ProjectedShape} shape - The shape to render.
+ * @param {number} size - Width and height of the SVG in pixels.
+ * @param {number} lineWidth - Width of wireframe lines in pixels.
+ * @returns {string} The SVG path element, or an empty string when nothing of the shape is visible.
+ */
+const renderShape = (shape: ProjectedShape, size: number, lineWidth: number) => {
+  const points = shape.primitives.map((primitive) => primitive.points);
+  const d = shape.wireframe ? traceEdges(points, size) : traceOutline(points, size);
+  if (!d) return '';
+
+  const color = formatColor(shape.color);
+  const paint = shape.wireframe
+    ? `fill="none" stroke="${color}" stroke-width="${formatNumber(lineWidth)}" stroke-linecap="round" stroke-linejoin="round"`
+    : `fill="${color}"`;
+
+  return `<path d="${d}" ${paint} opacity="${formatNumber(shape.opacity)}"/>`;
+};
+
+/**
+ * Renders an identicon spec as an SVG document.
+ *
+ * @param {IdenticonSpec} spec - The identicon spec to render.
+ * @param {SvgOptions} [options] - Size, background, line and framing options.
+ * @returns {string} The SVG document.
+ */
+export const renderIdenticonSvg = (spec: IdenticonSpec, options: SvgOptions = {}): string => {
+  const { size = 256, background = null, lineWidth = 1, framing = DEFAULT_FRAMING_MODE } = options;
+
+  const elements = projectIdenticon(spec, 1, frameIdenticon(spec, framing)).map((shape) => renderShape(shape, size, lineWidth)).filter(Boolean);
+  if (background) {
+    elements.unshift(`<rect width="${size}" height="${size}" fill="${formatColor(background)}"/>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${elements.join('')}</svg>`;
+};
@@ -0,0 +1,42 @@
+/**
+ * textRenderer.test.tsx
+ *
+ * Snapshot tests pinning the text art of a few fixed seeds, so changes to the spec, the projection, the rasterizers or
+ * the text renderer that would redraw existing identicons show up as snapshot diffs.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildIdenticonSpec } from './identiconSpec';
+import { buildGridIdenticon } from './gridIdenticon';
+import { renderIdenticonText, TEXT_CHARSETS } from './textRenderer';
+
+const SEEDS = ['alice', 'bob', 'Jane'];
+
+describe('renderIdenticonText', () => {
+  describe.each(SEEDS)('geometric identicon of %s', (seed) => {
+    // Versions are pinned, so bumping IDENTICON_SPEC_VERSION does not rewrite these snapshots
+    it.each([2, 3] as const)('draws spec version %i', (version) => {
+      expect(renderIdenticonText(buildIdenticonSpec(seed, { version }), { width: 16 })).toMatchSnapshot();
+    });
+
+    it.each(TEXT_CHARSETS)('draws the %s charset', (charset) => {
+      expect(renderIdenticonText(buildIdenticonSpec(seed, { version: 3 }), { charset, width: 32 })).toMatchSnapshot();
+    });
+  });
+
+  describe.each(SEEDS)('grid identicon of %s', (seed) => {
+    it.each([5, 8])('draws a %i cell grid', (gridSize) => {
+      expect(renderIdenticonText(buildGridIdenticon(seed, { version: 3, gridSize }), { charset: 'block', width: 16 })).toMatchSnapshot();
+    });
+  });
+
+  it('draws without a frame', () => {
+    const text = renderIdenticonText(buildIdenticonSpec('alice', { version: 3 }), { width: 8, frame: false });
+    expect(text.split('\n')).toHaveLength(5);
+    expect(text).toMatchSnapshot();
+  });
+
+  it('rejects unsupported widths', () => {
+    expect(() => renderIdenticonText(buildIdenticonSpec('alice'), { width: 4 })).toThrow('Text width');
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * textRenderer.tsx
+ *
+ * This file renders identicons as text, the way OpenSSH draws "randomart" for key fingerprints, so identicons can be
+ * compared by eye in a terminal or a log file. Geometric identicons are projected and rasterized with the software
+ * renderer and grid identicons with the grid renderer, then every character cell is drawn from the pixels it covers,
+ * with ASCII density characters, Unicode half blocks or braille dots, and optionally colored with ANSI escape codes.
+ * The renderer returns a plain string and runs in Node as well as in the browser.
+ */
+
+import { IdenticonSpec } from './identiconSpec';
+import { projectIdenticon } from './identiconProjection';
+import { rasterizeIdenticon } from './softwareRenderer';
+import { DEFAULT_FRAMING_MODE, frameIdenticon, FramingMode } from './framing';
+import { DEFAULT_GRID_PADDING, GridIdenticon, rasterizeGridIdenticon } from './gridIdenticon';
+
+/**
+ * The character sets text can be drawn with.
+ *
+ * - "ascii": one pixel column and two pixel rows per character, drawn with characters of increasing density.
+ * - "block": one pixel column and two pixel rows per character, drawn with Unicode half blocks.
+ * - "braille": two pixel columns and four pixel rows per character, drawn with Unicode braille dots.
+ */
+export const TEXT_CHARSETS = ['ascii', 'block', 'braille'] as const;
+
+export type TextCharset = typeof TEXT_CHARSETS[number];
+
+// Bounds and default for the width of the art in characters, not counting the frame
+export const MIN_TEXT_WIDTH = 8;
+export const MAX_TEXT_WIDTH = 128;
+export const DEFAULT_TEXT_WIDTH = 32;
+
+// Pixels covered by one character of each charset, as columns and rows. Characters are about twice as tall as wide.
+const CELL_PIXELS: Record<TextCharset, [number, number]> = {
+  ascii: [1, 2],
+  block: [1, 2],
+  braille: [2, 4],
+};
+
+// ASCII characters from empty to fully covered
+const ASCII_RAMP = ' .:-=+*#%@';
+
+// Alpha from which a pixel counts as set for block and braille characters, low enough for the faintest shapes
+const SET_ALPHA = 64;
+
+// Bits of the braille dots, indexed by pixel row and then column within the character
+const BRAILLE_DOTS = [[0x01, 0x08], [0x02, 0x10], [0x04, 0x20], [0x40, 0x80]];
+
+// ANSI escape code resetting all colors
+const ANSI_RESET = '\x1b[0m';
+
+/**
+ * Options accepted by renderIdenticonText.
+ *
+ * @interface TextOptions
+ * @property {TextCharset} [charset] - The character set. Defaults to "ascii".
+ * @property {number} [width] - Width of the art in characters, between MIN_TEXT_WIDTH and MAX_TEXT_WIDTH. The height is half the width. Defaults to DEFAULT_TEXT_WIDTH.
+ * @property {boolean} [color] - Whether to color the characters with 24-bit ANSI escape codes. Defaults to false.
+ * @property {boolean} [frame] - Whether to draw a frame titled with the seed around the art, like OpenSSH. Defaults to true.
+ * @property {FramingMode} [framing] - How the camera is fitted to the shapes of a geometric identicon. Defaults to DEFAULT_FRAMING_MODE.
+ * @property {number} [padding] - Empty margin around a grid identicon, in cells. Defaults to DEFAULT_GRID_PADDING.
+ */
+export interface TextOptions {
+  charset?: TextCharset;
+  width?: number;
+  color?: boolean;
+  frame?: boolean;
+  framing?: FramingMode;
+  padding?: number;
+}
+
+/**
+ * A pixel of the rasterized identicon.
+ *
+ * @interface Pixel
+ * @property {[number, number, number]} color - The sRGB color, each channel between 0 and 255.
+ * @property {number} alpha - The coverage, between 0 and 255.
+ */
+interface Pixel {
+  color: [number, number, number];
+  alpha: number;
+}
+
+/**
+ * Averages the colors of pixels, weighted by their coverage.
+ *
+ * @param {Pixel[]} pixels - The pixels.
+ * @returns {[number, number, number]} The average sRGB color, or black when no pixel is covered.
+ */
+const averageColor = (pixels: Pixel[]): [number, number, number] => {
+  const total = pixels.reduce((sum, { alpha }) => sum + alpha, 0) || 1;
+  return [0, 1, 2].map((c) => Math.round(pixels.reduce((sum, { color, alpha }) => sum + color[c] * alpha, 0) / total)) as [number, number, number];
+};
+
+/**
+ * Builds the ANSI escape code setting the foreground or background to a 24-bit color.
+ *
+ * @param {'fg' | 'bg'} layer - Whether to set the foreground or the background.
+ * @param {[number, number, number]} color - The sRGB color.
+ * @returns {string} The escape code.
+ */
+const ansiColor = (layer: 'fg' | 'bg', [r, g, b]: [number, number, number]) => `\x1b[${layer === 'fg' ? 38 : 48};2;${r};${g};${b}m`;
+
+/**
+ * One character of the art, with the colors it is drawn in.
+ *
+ * @interface TextCell
+ * @property {string} char - The character.
+ * @property {[number, number, number]} [fg] - The foreground color, if any.
+ * @property {[number, number, number]} [bg] - The background color, if any.
+ */
+interface TextCell {
+  char: string;
+  fg?: [number, number, number];
+  bg?: [number, number, number];
+}
+
+/**
+ * Draws one character from the pixels it covers, listed row by row.
+ *
+ * @param {TextCharset} charset - The character set.
+ * @param {Pixel[]} pixels - The covered pixels, row by row from the top left.
+ * @returns {TextCell} The character and its colors.
+ */
+const drawCell = (charset: TextCharset, pixels: Pixel[]): TextCell => {
+  if (charset === 'ascii') {
+    const coverage = pixels.reduce((sum, { alpha }) => sum + alpha, 0) / (pixels.length * 255);
+    const char = ASCII_RAMP[Math.round(coverage * (ASCII_RAMP.length - 1))];
+    return char === ' ' ? { char } : { char, fg: averageColor(pixels) };
+  }
+
+  if (charset === 'block') {
+    const [top, bottom] = pixels.map((pixel) => (pixel.alpha >= SET_ALPHA ? pixel : null));
+    if (top && bottom) return { char: '▀', fg: top.color, bg: bottom.color };
+    if (top) return { char: '▀', fg: top.color };
+    if (bottom) return { char: '▄', fg: bottom.color };
+    return { char: ' ' };
+  }
+
+  const set = pixels.filter(({ alpha }) => alpha >= SET_ALPHA);
+  if (!set.length) return { char: ' ' };
+  const dots = pixels.reduce((bits, { alpha }, i) => (alpha >= SET_ALPHA ? bits | BRAILLE_DOTS[i >> 1][i & 1] : bits), 0);
+  return { char: String.fromCharCode(0x2800 + dots), fg: averageColor(set) };
+};
+
+/**
+ * Joins the characters of a line, switching ANSI colors only where they change.
+ *
+ * Without color, cells whose foreground and background are both set are drawn as full blocks, so block art still shows
+ * both halves.
+ *
+ * @param {TextCell[]} cells - The characters of the line.
+ * @param {boolean} color - Whether to emit ANSI colors.
+ * @returns {string} The line.
+ */
+const joinLine = (cells: TextCell[], color: boolean) => {
+  if (!color) return cells.map(({ char, fg, bg }) => (fg && bg ? '█' : char)).join('');
+
+  let line = '';
+  let current = ANSI_RESET;
+  cells.forEach(({ char, fg, bg }) => {
+    const escape = fg || bg ? ANSI_RESET + (fg ? ansiColor('fg', fg) : '') + (bg ? ansiColor('bg', bg) : '') : ANSI_RESET;
+    if (escape !== current) {
+      line += escape;
+      current = escape;
+    }
+    line += char;
+  });
+  return line + ANSI_RESET;
+};
+
+/**
+ * Draws a frame around lines of art, with a title at the top and a label at the bottom, like OpenSSH's randomart.
+ *
+ * @param {string[]} lines - The lines of art.
+ * @param {number} width - Width of the lines in characters, without escape codes.
+ * @param {string} title - Title of the frame, shortened when it does not fit.
+ * @param {string} label - Label at the bottom of the frame.
+ * @param {boolean} unicode - Whether to draw the frame with box-drawing characters instead of ASCII.
+ * @returns {string[]} The framed lines.
+ */
+const drawFrame = (lines: string[], width: number, title: string, label: string, unicode: boolean) => {
+  const [horizontal, vertical, topLeft, topRight, bottomLeft, bottomRight] = (unicode ? '─│┌┐└┘' : '-|++++').split('');
+  const border = (text: string, left: string, right: string) => {
+    const fitted = text.length > width - 2 ? `${text.slice(0, Math.max(0, width - 5))}...` : text;
+    const tag = fitted ? `[${fitted}]` : '';
+    const before = Math.floor((width - tag.length) / 2);
+    return left + horizontal.repeat(before) + tag + horizontal.repeat(width - tag.length - before) + right;
+  };
+
+  return [
+    border(title, topLeft, topRight),
+    ...lines.map((line) => vertical + line + vertical),
+    border(label, bottomLeft, bottomRight),
+  ];
+};
+
+/**
+ * Renders a geometric identicon spec or a grid identicon as text.
+ *
+ * @param {IdenticonSpec | GridIdenticon} identicon - The identicon spec or grid identicon to render.
+ * @param {TextOptions} [options] - Charset, size, color and frame options.
+ * @returns {string} The art, one line per row, ending with a newline.
+ */
+export const renderIdenticonText = (identicon: IdenticonSpec | GridIdenticon, options: TextOptions = {}): string => {
+  const {
+    charset = 'ascii',
+    width = DEFAULT_TEXT_WIDTH,
+    color = false,
+    frame = true,
+    framing = DEFAULT_FRAMING_MODE,
+    padding = DEFAULT_GRID_PADDING,
+  } = options;
+
+  if (!TEXT_CHARSETS.includes(charset)) {
+    throw new Error(`Unsupported text charset: ${charset}`);
+  }
+  if (!Number.isInteger(width) || width < MIN_TEXT_WIDTH || width > MAX_TEXT_WIDTH) {
+    throw new Error(`Text width must be an integer between ${MIN_TEXT_WIDTH} and ${MAX_TEXT_WIDTH}`);
+  }
+
+  // The image is square in pixels, and so is the art on screen, as characters are about twice as tall as wide
+  const [columns, rows] = CELL_PIXELS[charset];
+  const size = width * columns;
+  const pixels = 'style' in identicon
+    ? rasterizeGridIdenticon(identicon, { size, padding })
+    : rasterizeIdenticon(projectIdenticon(identicon, 1, frameIdenticon(identicon, framing)), { size });
+  const pixelAt = (x: number, y: number): Pixel => {
+    const i = (y * size + x) * 4;
+    return y < size
+      ? { color: [pixels[i], pixels[i + 1], pixels[i + 2]], alpha: pixels[i + 3] }
+      : { color: [0, 0, 0], alpha: 0 };
+  };
+
+  const lines = Array.from({ length: Math.ceil(size / rows) }, (_, row) =>
+    joinLine(Array.from({ length: width }, (_, column) =>
+      drawCell(charset, Array.from({ length: columns * rows }, (_, i) =>
+        pixelAt(column * columns + (i % columns), row * rows + Math.floor(i / columns))))), color));
+
+  const style = 'style' in identicon ? identicon.style : 'geometric';
+  return (frame ? drawFrame(lines, width, identicon.seed, style, charset !== 'ascii') : lines).join('\n') + '\n';
+};
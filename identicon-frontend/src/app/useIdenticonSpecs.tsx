@@ -0,0 +1,194 @@
+/**
+ * useIdenticonSpecs.tsx
+ *
+ * This file defines the useIdenticonSpecs hook, which provides the identicon specs for a list of seeds to the React components,
+ * useHeadSpecs and useGridIdenticons, which do the same for the head and grid styles, and loadIdenticonSpec, which
+ * provides one identicon spec in non-React code such as batch generation.
+ * By default everything is built in the browser. When NEXT_PUBLIC_IDENTICON_KEYED is "true" it is fetched from the
+ * `/api/spec/[seed]` route instead, so the hashes can be derived with the server's secret key. That route only
+ * accepts identicon IDs issued by the server in keyed mode, so the seeds given are then identicon IDs, such as those
+ * the pages issue for the forum users. Other seeds, such as names typed on the page, cannot be fetched: the hooks report
+ * the error to their onError callback, so components can tell the user rather than stay blank.
+ * Either way, the shapes follow the version, geometries, palette and material of the identicon theme, and grids its
+ * version and palette.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import axios from 'axios';
+import { buildIdenticonSpec, IdenticonSpec } from './identiconSpec';
+import { buildHeadSpec, HeadSpec } from './headSpec';
+import { buildGridIdenticon, GridIdenticon } from './gridIdenticon';
+import { DEFAULT_THEME, IdenticonTheme, themeSpecOptions } from './identiconTheme';
+import { useIdenticonTheme } from './useIdenticonTheme';
+
+// Whether identicons are keyed, in which case they must come from the server
+const keyedMode = process.env.NEXT_PUBLIC_IDENTICON_KEYED === 'true';
+
+/**
+ * Serializes the settings of a theme that decide the shapes, for the `theme` query parameter of the spec route and as a
+ * stable key for memoization.
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {string} The JSON of the theme's version, geometries, palette and material.
+ */
+const themeShapesKey = ({ version, geometries, palette, material }: IdenticonTheme) =>
+  JSON.stringify({ version, geometries, palette, material });
+
+/**
+ * Serializes the settings of a theme that decide grid identicons, like themeShapesKey.
+ *
+ * @param {IdenticonTheme} theme - The theme.
+ * @returns {string} The JSON of the theme's version and palette.
+ */
+const gridThemeKey = ({ version, palette }: IdenticonTheme) => JSON.stringify({ version, palette });
+
+// Query parameters of the spec route describing an identicon, which also serve as a stable key for memoization
+type SpecParams = Record<string, string | number>;
+
+/**
+ * Fetches the description of an identicon from the server.
+ *
+ * @param {string} seed - The identicon ID of the seed.
+ * @param {SpecParams} params - The query parameters of the spec route, such as the style.
+ * @returns {Promise<T>} The description built by the server.
+ */
+const fetchIdenticon = async <T,>(seed: string, params: SpecParams): Promise<T> => {
+  const response = await axios.get<T>(`/api/spec/${encodeURIComponent(seed)}`, { params });
+  return response.data;
+};
+
+/**
+ * Builds an identicon spec locally from the parameters the spec route would be given.
+ *
+ * @param {string} seed - The seed string.
+ * @param {{ shapes: number, theme: string }} params - The number of shapes and the JSON built by themeShapesKey.
+ * @returns {IdenticonSpec} The spec for the seed.
+ */
+const buildLocalSpec = (seed: string, { shapes, theme }: { shapes: number, theme: string }) =>
+  buildIdenticonSpec(seed, { ...JSON.parse(theme), shapes });
+
+/**
+ * Builds a head spec locally.
+ *
+ * @param {string} seed - The seed string.
+ * @returns {HeadSpec} The head spec for the seed.
+ */
+const buildLocalHeadSpec = (seed: string) => buildHeadSpec(seed);
+
+/**
+ * Builds a grid identicon locally from the parameters the spec route would be given.
+ *
+ * @param {string} seed - The seed string.
+ * @param {{ grid: number, theme: string }} params - The number of cells along each side and the JSON of the theme's version and palette.
+ * @returns {GridIdenticon} The grid identicon for the seed.
+ */
+const buildLocalGrid = (seed: string, { grid, theme }: { grid: number, theme: string }) =>
+  buildGridIdenticon(seed, { ...JSON.parse(theme), gridSize: grid });
+
+/**
+ * Loads the identicon spec for a single seed outside of React, building it locally or fetching it in keyed mode.
+ *
+ * @param {string} seed - The seed string, or its identicon ID in keyed mode.
+ * @param {number} shapes - Number of shapes in the identicon.
+ * @param {IdenticonTheme} [theme] - The theme whose version, geometries, palette and material the shapes follow. Defaults to DEFAULT_THEME.
+ * @returns {Promise<IdenticonSpec>} The spec for the seed.
+ */
+export const loadIdenticonSpec = async (seed: string, shapes: number, theme: IdenticonTheme = DEFAULT_THEME): Promise<IdenticonSpec> => {
+  const params = { shapes, theme: themeShapesKey(theme) };
+  return keyedMode ? fetchIdenticon<IdenticonSpec>(seed, params) : buildLocalSpec(seed, params);
+};
+
+/**
+ * Provides the descriptions of the identicons of a list of seeds, built locally or, in keyed mode, fetched from the
+ * server. In keyed mode the descriptions are null until the server responds, and the previous ones are discarded
+ * whenever the seeds or the parameters change. When the server cannot provide them, such as for a seed that is not
+ * an identicon ID, they stay null and onError receives the error; it receives null whenever a new request starts.
+ *
+ * @param {string[]} seeds - The seed strings, or their identicon IDs in keyed mode.
+ * @param {P} params - The query parameters of the spec route, which are also given to the local builder.
+ * @param {function} build - Builds the description of a seed locally. Must be a stable function.
+ * @param {function} [onError] - Receives the error of a failed request, or null when a new request starts.
+ * @returns {(T | null)[]} The description for each seed, in order.
+ */
+const useIdenticons = <T, P extends SpecParams>(
+  seeds: string[],
+  params: P,
+  build: (seed: string, params: P) => T,
+  onError?: (error: Error | null) => void,
+): (T | null)[] => {
+  // Stable keys so callers can pass fresh arrays and objects on every render
+  const seedsKey = JSON.stringify(seeds);
+  const paramsKey = JSON.stringify(params);
+
+  const local = useMemo(
+    () => keyedMode ? null : (JSON.parse(seedsKey) as string[]).map((seed) => build(seed, JSON.parse(paramsKey))),
+    [seedsKey, paramsKey, build]
+  );
+
+  const [remote, setRemote] = useState<{ key: string, items: T[] } | null>(null);
+
+  // The latest onError, so a new function does not trigger a new request
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!keyedMode) return;
+
+    let cancelled = false;
+    const key = `${seedsKey}:${paramsKey}`;
+    onErrorRef.current?.(null);
+    Promise.all((JSON.parse(seedsKey) as string[]).map((seed) => fetchIdenticon<T>(seed, JSON.parse(paramsKey))))
+      .then((items) => {
+        if (!cancelled) setRemote({ key, items });
+      })
+      .catch((error) => {
+        console.error('Failed to fetch identicon specs', error);
+        if (!cancelled) onErrorRef.current?.(error);
+      });
+    return () => { cancelled = true; };
+  }, [seedsKey, paramsKey]);
+
+  if (local) return local;
+  if (remote && remote.key === `${seedsKey}:${paramsKey}`) return remote.items;
+  return seeds.map(() => null);
+};
+
+/**
+ * Provides the identicon specs for a list of seeds.
+ *
+ * The shapes follow the theme of the nearest IdenticonThemeContext provider. In keyed mode the specs are null until the
+ * server responds, and the previous specs are discarded whenever the seeds or the theme change.
+ *
+ * @param {string[]} seeds - The seed strings, or their identicon IDs in keyed mode.
+ * @param {number} shapes - Number of shapes in each identicon.
+ * @param {function} [onError] - Receives the error when the server cannot provide the specs in keyed mode, or null when a new request starts.
+ * @returns {(IdenticonSpec | null)[]} The spec for each seed, in order.
+ */
+export const useIdenticonSpecs = (seeds: string[], shapes: number, onError?: (error: Error | null) => void): (IdenticonSpec | null)[] =>
+  // Only the theme settings deciding the shapes matter
+  useIdenticons(seeds, { shapes, theme: themeShapesKey(useIdenticonTheme()) }, buildLocalSpec, onError);
+
+/**
+ * Provides the head specs for a list of seeds, null until the server responds in keyed mode.
+ *
+ * @param {string[]} seeds - The seed strings, or their identicon IDs in keyed mode.
+ * @param {function} [onError] - Receives the error when the server cannot provide the specs in keyed mode, or null when a new request starts.
+ * @returns {(HeadSpec | null)[]} The head spec for each seed, in order.
+ */
+export const useHeadSpecs = (seeds: string[], onError?: (error: Error | null) => void): (HeadSpec | null)[] =>
+  useIdenticons(seeds, { style: 'head' }, buildLocalHeadSpec, onError);
+
+/**
+ * Provides the grid identicons for a list of seeds, null until the server responds in keyed mode.
+ *
+ * The color is picked from the palette of the nearest IdenticonThemeContext provider's theme, and the hash is derived
+ * like the theme's version derives it.
+ *
+ * @param {string[]} seeds - The seed strings, or their identicon IDs in keyed mode.
+ * @param {number} gridSize - Number of cells along each side of the grids.
+ * @param {function} [onError] - Receives the error when the server cannot provide the grids in keyed mode, or null when a new request starts.
+ * @returns {(GridIdenticon | null)[]} The grid identicon for each seed, in order.
+ */
+export const useGridIdenticons = (seeds: string[], gridSize: number, onError?: (error: Error | null) => void): (GridIdenticon | null)[] =>
+  // Only the version and palette of the theme matter
+  useIdenticons(seeds, { style: 'grid', grid: gridSize, theme: gridThemeKey(useIdenticonTheme()) }, buildLocalGrid, onError);
@@ -0,0 +1,105 @@
+/**
+ * useIdenticonStyle.tsx
+ *
+ * This file defines the useIdenticonStyle hook, which holds the identicon style chosen on a page and its option values,
+ * and records both in the page URL. A link copied from the address bar therefore opens the same style with the same
+ * options, e.g. `/?style=geometric&shapes=12`.
+ * Options with a theme setting, such as the geometric style's `shapes`, follow the identicon theme until they are set on
+ * the page. They are recorded in the URL either way, so a link holds the exact identicon; recorded values that match
+ * the link's theme, which is recorded alongside them (see useStoredTheme), keep following the theme once restored.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_STYLE_ID,
+  IDENTICON_STYLES,
+  IdenticonStyle,
+  IdenticonStyleId,
+  isIdenticonStyleId,
+  parseStyleOptions,
+  resolveStyleOptions,
+  StyleOptionValues,
+} from './identiconStyles';
+import { DEFAULT_THEME } from './identiconTheme';
+import { useIdenticonTheme } from './useIdenticonTheme';
+import { parseThemeParam } from './permalink';
+
+/**
+ * The chosen style and the functions to change it.
+ *
+ * @interface IdenticonStyleState
+ * @property {IdenticonStyle} style - The chosen style.
+ * @property {StyleOptionValues} options - The option values of the chosen style, complete with defaults.
+ * @property {StyleOptionValues} overrides - The option values set on the page, which override the defaults and the theme.
+ * @property {function} setStyle - Switches to another style, with its default options.
+ * @property {function} setOption - Changes one option of the chosen style.
+ * @property {function} resetOption - Returns one option of the chosen style to its default, or to the theme's value.
+ */
+export interface IdenticonStyleState {
+  style: IdenticonStyle;
+  options: StyleOptionValues;
+  overrides: StyleOptionValues;
+  setStyle: (id: IdenticonStyleId) => void;
+  setOption: (key: string, value: number | boolean) => void;
+  resetOption: (key: string) => void;
+}
+
+/**
+ * Holds the identicon style and options of a page, synchronized with the `style` and option query parameters.
+ *
+ * The URL is read once after mounting, as the server renders without it, and is then updated in place on every change
+ * without adding history entries. Query parameters that are not style options are left untouched. Options are resolved
+ * against the theme of the nearest IdenticonThemeContext provider.
+ *
+ * @returns {IdenticonStyleState} The chosen style and the functions to change it.
+ */
+export const useIdenticonStyle = (): IdenticonStyleState => {
+  const [styleId, setStyleId] = useState<IdenticonStyleId>(DEFAULT_STYLE_ID);
+  const [overrides, setOverrides] = useState<StyleOptionValues>({});
+  const [loaded, setLoaded] = useState(false);
+
+  const style = IDENTICON_STYLES[styleId];
+  const theme = useIdenticonTheme();
+  const options = useMemo(() => resolveStyleOptions(style, overrides, theme), [style, overrides, theme]);
+
+  // Restore the style and options recorded in the URL
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const id = params.get('style');
+    if (isIdenticonStyleId(id)) {
+      // Options matching the theme the link was made with follow the theme rather than override it
+      const style = IDENTICON_STYLES[id];
+      const themed = resolveStyleOptions(style, {}, parseThemeParam(params.get('theme') ?? '') ?? DEFAULT_THEME);
+      const recorded = Object.entries(parseStyleOptions(style, Object.fromEntries(params)));
+      setStyleId(id);
+      setOverrides(Object.fromEntries(recorded.filter(([key, value]) =>
+        !style.options.find((option) => option.key === key)?.themeSetting || value !== themed[key])));
+    }
+    setLoaded(true);
+  }, []);
+
+  // Record the style and options in the URL once the recorded ones have been restored
+  useEffect(() => {
+    if (!loaded) return;
+    const url = new URL(window.location.href);
+    Object.values(IDENTICON_STYLES).forEach((style) => style.options.forEach((option) => url.searchParams.delete(option.key)));
+    url.searchParams.set('style', style.id);
+    style.options.forEach((option) => url.searchParams.set(option.key, String(options[option.key])));
+    window.history.replaceState(window.history.state, '', url);
+  }, [loaded, style, options]);
+
+  const setStyle = useCallback((id: IdenticonStyleId) => {
+    setStyleId(id);
+    setOverrides({});
+  }, []);
+
+  const setOption = useCallback((key: string, value: number | boolean) => {
+    setOverrides((previous) => ({ ...previous, [key]: value }));
+  }, []);
+
+  const resetOption = useCallback((key: string) => {
+    setOverrides(({ [key]: _, ...rest }) => rest);
+  }, []);
+
+  return { style, options, overrides, setStyle, setOption, resetOption };
+};
@@ -0,0 +1,85 @@
+/**
+ * useIdenticonTheme.tsx
+ *
+ * This file provides the identicon theme to the components that render identicons. Pages put their theme in
+ * IdenticonThemeContext, and views, hooks and export buttons read it with useIdenticonTheme, so a theme applies to
+ * every identicon below the provider. Without a provider, identicons use DEFAULT_THEME.
+ * The theme chosen in the designer is kept in local storage by useStoredTheme, so every page of the site uses it, and
+ * recorded in the `theme` query parameter, so a link copied from the page shows the identicon with the same theme.
+ */
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { DEFAULT_THEME, IdenticonTheme, parseTheme, serializeTheme } from './identiconTheme';
+import { formatThemeParam, parseThemeParam } from './permalink';
+
+// Local storage key holding the theme chosen in the designer
+const THEME_STORAGE_KEY = 'identicon-theme';
+
+// Query parameter recording the theme in the page URL
+const THEME_PARAM = 'theme';
+
+// Theme of the identicons below the provider
+export const IdenticonThemeContext = createContext<IdenticonTheme>(DEFAULT_THEME);
+
+/**
+ * Reads the theme of the identicons below the nearest IdenticonThemeContext provider.
+ *
+ * @returns {IdenticonTheme} The theme, or DEFAULT_THEME without a provider.
+ */
+export const useIdenticonTheme = (): IdenticonTheme => useContext(IdenticonThemeContext);
+
+/**
+ * Holds the theme chosen in the designer, kept in local storage and recorded in the `theme` query parameter.
+ *
+ * The theme is read once after mounting, as the server renders without it: a valid theme recorded in the URL comes
+ * first, then the stored theme, and a stored theme that is no longer valid is ignored. Permalinks record every theme
+ * but the default one, so on permalinks the stored theme is not used and a link without a theme shows the default
+ * theme. Every change is stored and recorded, and the default theme is stored and recorded as no theme at all.
+ *
+ * @param {boolean} [permalink] - Whether the page is a permalink, which shows the theme it was made with.
+ * @returns {[IdenticonTheme, function]} The theme and the function to change it.
+ */
+export const useStoredTheme = (permalink = false): [IdenticonTheme, (theme: IdenticonTheme) => void] => {
+  const [theme, setTheme] = useState<IdenticonTheme>(DEFAULT_THEME);
+  const [loaded, setLoaded] = useState(false);
+
+  // Restore the theme recorded in the URL, or else the stored theme
+  useEffect(() => {
+    const recorded = parseThemeParam(new URLSearchParams(window.location.search).get(THEME_PARAM) ?? '');
+    const stored = permalink ? null : window.localStorage.getItem(THEME_STORAGE_KEY);
+    if (recorded) {
+      setTheme(recorded);
+    } else if (stored !== null) {
+      try {
+        setTheme(parseTheme(JSON.parse(stored)));
+      } catch (error) {
+        console.warn('Ignoring the stored identicon theme', error);
+      }
+    }
+    setLoaded(true);
+  }, [permalink]);
+
+  // Record the theme in the URL once the recorded one has been restored
+  useEffect(() => {
+    if (!loaded) return;
+    const url = new URL(window.location.href);
+    const param = formatThemeParam(theme);
+    if (param === null) {
+      url.searchParams.delete(THEME_PARAM);
+    } else {
+      url.searchParams.set(THEME_PARAM, param);
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }, [loaded, theme]);
+
+  const storeTheme = useCallback((next: IdenticonTheme) => {
+    setTheme(next);
+    if (serializeTheme(next) === serializeTheme(DEFAULT_THEME)) {
+      window.localStorage.removeItem(THEME_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(THEME_STORAGE_KEY, serializeTheme(next));
+    }
+  }, []);
+
+  return [theme, storeTheme];
+};
@@ -0,0 +1,36 @@
+/**
+ * useIsVisible.tsx
+ *
+ * This file defines the useIsVisible hook, which tells whether an element can currently be seen: it is scrolled into
+ * view and its tab is in the foreground. Canvases use it to stop rendering when nobody is looking.
+ */
+
+import { RefObject, useEffect, useState } from 'react';
+
+/**
+ * Tracks whether an element is in view in a visible tab.
+ *
+ * @param {RefObject<Element>} ref - Reference to the element to watch, which must be mounted together with the caller.
+ * @returns {boolean} True while the element intersects the viewport and the page is visible. True until first measured.
+ */
+export const useIsVisible = (ref: RefObject<Element>): boolean => {
+  const [inView, setInView] = useState(true);
+  const [pageVisible, setPageVisible] = useState(true);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setPageVisible(!document.hidden);
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  return inView && pageVisible;
+};
@@ -0,0 +1,49 @@
+/**
+ * useSearchParam.tsx
+ *
+ * This file defines the useSearchParam hook, which mirrors one piece of page state in a query parameter of the page URL,
+ * so a link copied from the page restores it. The state itself stays wherever it already lives; the hook only restores
+ * it from the URL once and records every change.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Mirrors a value in the query parameter `key` of the page URL.
+ *
+ * The URL is read once after mounting, as the server renders without it: a valid recorded value is passed to restore,
+ * and an invalid one is ignored. From then on every value is recorded in place, without adding history entries.
+ *
+ * @param {string} key - Name of the query parameter.
+ * @param {T} value - The current value, recorded with String().
+ * @param {function} restore - Receives the value recorded in the URL, if any.
+ * @param {function} parse - Parses a recorded value, returning undefined when it is invalid.
+ */
+export const useSearchParam = <T extends string | number | boolean>(
+  key: string,
+  value: T,
+  restore: (value: T) => void,
+  parse: (raw: string) => T | undefined,
+) => {
+  const [loaded, setLoaded] = useState(false);
+
+  // The callbacks are only used once, so the latest ones are kept without re-running the restore
+  const callbacks = useRef({ restore, parse });
+  callbacks.current = { restore, parse };
+
+  // Restore the value recorded in the URL
+  useEffect(() => {
+    const raw = new URLSearchParams(window.location.search).get(key);
+    const parsed = raw === null ? undefined : callbacks.current.parse(raw);
+    if (parsed !== undefined) callbacks.current.restore(parsed);
+    setLoaded(true);
+  }, [key]);
+
+  // Record the value in the URL once the recorded one has been restored
+  useEffect(() => {
+    if (!loaded) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set(key, String(value));
+    window.history.replaceState(window.history.state, '', url);
+  }, [loaded, key, value]);
+};
@@ -8,6 +8,10 @@
 */
 
 import CryptoJS from 'crypto-js';
+import { IdenticonRegistry } from './identiconRegistry';
+import { ExportOptions, renderIdenticonCanvas } from './exportRenderer';
+import { AnimationOptions, renderIdenticonAnimation } from './animationExport';
+import { exportIdenticonModel, ModelFormat } from './modelExport';
 
 /**
  * Generates a SHA-256 hash of the input string concatenated with an index.
@@ -18,6 +22,9 @@ import CryptoJS from 'crypto-js';
  * The SHA-256 algorithm is used for its strong cryptographic properties, ensuring that even
  * small changes to the input result in a significantly different hash.
  * 
+ * Note that the concatenation is ambiguous ("ab1" + 0 and "ab" + 10 hash the same string). The legacy "v0" seed
+ * derivation reproduces it; new code should use deriveShapeHash from seedDerivation.tsx.
+ * 
  * @param {string} inputString - The input string to be hashed.
  * @param {number} index - An index to be concatenated with the input string before hashing.
  * @returns {string} - The resulting SHA-256 hash as a string.
@@ -34,59 +41,127 @@ export const generateHash = (inputString: string, index: number): string => {
 };
 
 /**
- * Capture the identicon from a canvas and trigger a download.
+ * Capture an identicon and trigger a download.
  * 
- * This function captures the current state of a WebGL canvas, resizes it to the specified
- * dimensions, and then triggers a download of the resized image as a PNG file.
+ * This function looks up an identicon by its registry ID, renders it offscreen at the requested resolution with the
+ * camera framed like on the page, encodes it in the requested format and then triggers a download of the resulting file.
  * 
  * The function follows these steps:
- * 1. Access the canvas container at the specified index from the provided references.
- * 2. Extract the canvas element from the container.
- * 3. Create a new canvas element to serve as the resized version.
- * 4. Draw the content of the original canvas onto the resized canvas.
- * 5. Convert the resized canvas content to a data URL.
- * 6. Create a link element, set its href to the data URL, and trigger a download.
+ * 1. Look up the identicon's spec in the registry.
+ * 2. Render the identicon spec offscreen with the requested size, background and effects.
+ * 3. Encode the rendered canvas as PNG, JPEG or WebP, using the quality setting for lossy formats.
+ * 4. Create a link element pointing at the encoded image and trigger a download.
+ * 
+ * @param {string} id - The registry ID of the identicon, e.g. "main" or "forum:Quiznos".
+ * @param {ExportOptions} options - The size, format, quality, background and effects of the export.
+ * @param {React.MutableRefObject<IdenticonRegistry>} registry - A reference to the registry of identicons on the page.
+ * @returns {Promise<void>} Resolves once the download has been triggered.
+ */
+export const captureIdenticon = async (id: string, options: ExportOptions, registry: React.MutableRefObject<IdenticonRegistry>) => {
+  // Look up the identicon by its ID
+  const entry = registry.current.get(id);
+  const spec = entry?.spec;
+  if (!spec) {
+    console.warn(`No identicon registered with ID "${id}"`);
+    return;
+  }
+
+  // Render the identicon offscreen at the requested resolution
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = await renderIdenticonCanvas(spec, { ...options, framing: entry.framing });
+  } catch (error) {
+    console.error('Failed to render the identicon for export', error);
+    return;
+  }
+
+  // Encode the canvas content in the requested format
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, `image/${options.format}`, options.quality));
+  if (!blob) {
+    console.error(`Failed to encode the identicon as ${options.format}`);
+    return;
+  }
+
+  downloadBlob(blob, `identicon-${spec.seed}-${options.size}x${options.size}.${options.format === 'jpeg' ? 'jpg' : options.format}`);
+};
+
+/**
+ * Record an animated identicon and trigger a download.
+ * 
+ * This function looks up an identicon by its registry ID, records its wobble or a camera orbit around it frame by frame,
+ * encodes the frames as a looping GIF or WebM and then triggers a download of the resulting file.
  * 
- * @param {number} index - The index of the canvas element in the canvasRefs array.
- * @param {number} size - The desired size of the identicon to be downloaded.
- * @param {React.MutableRefObject<(HTMLDivElement | null)[]>} canvasRefs - A reference to an array of canvas container elements.
+ * @param {string} id - The registry ID of the identicon, e.g. "main" or "forum:Quiznos".
+ * @param {AnimationOptions} options - The format, motion, frame count, frame rate, size and effects of the animation.
+ * @param {React.MutableRefObject<IdenticonRegistry>} registry - A reference to the registry of identicons on the page.
+ * @returns {Promise<void>} Resolves once the download has been triggered.
  */
-export const captureIdenticon = (index: number, size: number, canvasRefs: React.MutableRefObject<(HTMLDivElement | null)[]>) => {
-  // Access the canvas container at the specified index
-  const canvasContainer = canvasRefs.current[index];
-  if (!canvasContainer) {
-    console.warn(`No canvas container found at index ${index}`);
+export const captureIdenticonAnimation = async (id: string, options: AnimationOptions, registry: React.MutableRefObject<IdenticonRegistry>) => {
+  // Look up the identicon by its ID
+  const entry = registry.current.get(id);
+  const spec = entry?.spec;
+  if (!spec) {
+    console.warn(`No identicon registered with ID "${id}"`);
     return;
   }
 
-  // Extract the canvas element from the container
-  const canvasElement = canvasContainer.querySelector('canvas');
-  if (!canvasElement) {
-    console.warn('No canvas element found in the specified container');
+  // Render and encode the animation, framed like on the page
+  let blob: Blob;
+  try {
+    blob = await renderIdenticonAnimation(spec, { ...options, framing: entry.framing });
+  } catch (error) {
+    console.error('Failed to record the identicon animation', error);
     return;
   }
 
-  // Create a new canvas element to resize the image
-  const resizedCanvas = document.createElement('canvas');
-  resizedCanvas.width = size;
-  resizedCanvas.height = size;
-  const ctx = resizedCanvas.getContext('2d');
-  if (!ctx) {
-    console.error('Failed to get 2D context for the resized canvas');
+  downloadBlob(blob, `identicon-${spec.seed}-${options.mode}-${options.size}x${options.size}.${options.format}`);
+};
+
+/**
+ * Export an identicon as a 3D model and trigger a download.
+ * 
+ * This function looks up an identicon by its registry ID, builds its meshes from the spec and downloads them as a GLB,
+ * STL or OBJ file. The model shows the shapes at rest, whatever the live scene's rotation.
+ * 
+ * @param {string} id - The registry ID of the identicon, e.g. "main" or "forum:Quiznos".
+ * @param {ModelFormat} format - The model format.
+ * @param {React.MutableRefObject<IdenticonRegistry>} registry - A reference to the registry of identicons on the page.
+ * @returns {Promise<void>} Resolves once the download has been triggered.
+ */
+export const captureIdenticonModel = async (id: string, format: ModelFormat, registry: React.MutableRefObject<IdenticonRegistry>) => {
+  // Look up the identicon by its ID
+  const spec = registry.current.get(id)?.spec;
+  if (!spec) {
+    console.warn(`No identicon registered with ID "${id}"`);
     return;
   }
 
-  // Draw the content of the original canvas onto the resized canvas
-  ctx.drawImage(canvasElement, 0, 0, size, size);
+  // Build and encode the model
+  let blob: Blob;
+  try {
+    blob = await exportIdenticonModel(spec, format);
+  } catch (error) {
+    console.error(`Failed to export the identicon as ${format}`, error);
+    return;
+  }
 
-  // Convert the resized canvas content to a data URL in PNG format
-  const dataURL = resizedCanvas.toDataURL('image/png');
+  downloadBlob(blob, `identicon-${spec.seed}.${format}`);
+};
 
+/**
+ * Trigger the download of a file.
+ * 
+ * @param {Blob} blob - The file content.
+ * @param {string} filename - The name the file is saved under.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
   // Create a link element to trigger the download
+  const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
-  link.href = dataURL;
-  link.download = `identicon-${size}x${size}.png`;
+  link.href = url;
+  link.download = filename;
 
-  // Programmatically click the link to trigger the download
+  // Programmatically click the link to trigger the download, then release the object URL
   link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 };
@@ -0,0 +1,44 @@
+/**
+ * webgl.tsx
+ *
+ * This file detects whether the browser can create WebGL contexts. Three.js throws when it cannot, so components check
+ * first and show a static identicon instead of a live canvas when WebGL is disabled, blocklisted or missing.
+ */
+
+import { useEffect, useState } from 'react';
+
+// Result of the first check, reused afterwards
+let webGLAvailable: boolean | null = null;
+
+/**
+ * Checks whether WebGL is available, creating a throwaway context the first time.
+ *
+ * @returns {boolean} True when a WebGL 2 or WebGL 1 context can be created. Always false outside the browser.
+ */
+export const isWebGLAvailable = (): boolean => {
+  if (typeof document === 'undefined') return false;
+  if (webGLAvailable === null) {
+    try {
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+      webGLAvailable = context !== null;
+      context?.getExtension('WEBGL_lose_context')?.loseContext();
+    } catch {
+      webGLAvailable = false;
+    }
+  }
+  return webGLAvailable;
+};
+
+/**
+ * Reports whether WebGL is available, once the component has mounted.
+ *
+ * The server cannot know, so the first render returns null on both sides and hydration stays consistent.
+ *
+ * @returns {boolean | null} Whether WebGL is available, or null before mounting.
+ */
+export const useWebGLAvailable = (): boolean | null => {
+  const [available, setAvailable] = useState<boolean | null>(null);
+  useEffect(() => setAvailable(isWebGLAvailable()), []);
+  return available;
+};
@@ -0,0 +1,105 @@
+/**
+ * zip.test.tsx
+ *
+ * Tests of the ZIP writer, reading the archive back through its central directory as unzip tools do: every entry must
+ * be found at the offset its directory record gives, with the name, checksum, sizes and time it was written with.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+import { createZip } from './zip';
+
+/**
+ * A file read back from a ZIP archive.
+ *
+ * @interface ReadEntry
+ * @property {string} name - Path of the file inside the archive.
+ * @property {Uint8Array} data - The file contents.
+ * @property {number} crc - The checksum recorded in the headers.
+ * @property {number} time - The DOS time recorded in the headers.
+ * @property {number} date - The DOS date recorded in the headers.
+ */
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Reads the files of a stored (uncompressed) ZIP archive, checking that its local headers agree with its central
+ * directory.
+ *
+ * @param {Uint8Array} zip - The archive.
+ * @returns {ReadEntry[]} The files, in directory order.
+ */
+const readZip = (zip: Uint8Array): ReadEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  let record = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(record, true)).toBe(0x02014b50);
+    expect(view.getUint16(record + 10, true)).toBe(0); // Stored
+    const crc = view.getUint32(record + 16, true);
+    const size = view.getUint32(record + 24, true);
+    const nameLength = view.getUint16(record + 28, true);
+    const name = decoder.decode(zip.subarray(record + 46, record + 46 + nameLength));
+    const local = view.getUint32(record + 42, true);
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint32(local + 18, true)).toBe(size);
+    expect(view.getUint32(local + 22, true)).toBe(size);
+    expect(decoder.decode(zip.subarray(local + 30, local + 30 + nameLength))).toBe(name);
+    const start = local + 30 + nameLength + view.getUint16(local + 28, true);
+
+    entries.push({
+      name,
+      data: zip.slice(start, start + size),
+      crc,
+      time: view.getUint16(local + 10, true),
+      date: view.getUint16(local + 12, true),
+    });
+    record += 46 + nameLength + view.getUint16(record + 30, true) + view.getUint16(record + 32, true);
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('writes archives whose entries read back with their names, contents, checksums and time', async () => {
+    const encoder = new TextEncoder();
+    const files = [
+      { name: 'manifest.json', data: encoder.encode('{"identicons":[]}') },
+      { name: 'identicons/jäne.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]) },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+    const zip = createZip(files, new Date(2024, 0, 15, 10, 30, 20));
+    expect(zip.type).toBe('application/zip');
+
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect(entries.map(({ name }) => name)).toEqual(files.map(({ name }) => name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(files[i].data);
+      expect(entry.crc).toBe(crc32(files[i].data));
+      expect(entry.time).toBe((10 << 11) | (30 << 5) | 10);
+      expect(entry.date).toBe(((2024 - 1980) << 9) | (1 << 5) | 15);
+    });
+  });
+
+  it('writes an empty archive as a bare end of central directory record', async () => {
+    const zip = new Uint8Array(await createZip([]).arrayBuffer());
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * zip.tsx
+ *
+ * This file contains a minimal ZIP writer, used to bundle batch-generated identicons into a single download. Entries are
+ * stored without compression: PNG, JPEG and WebP images are already compressed, so deflating them again gains little.
+ * It only uses typed arrays and Blobs, so it works in the browser as well as in Node.
+ */
+
+import { crc32 } from './crc32';
+
+/**
+ * A file to add to a ZIP archive.
+ *
+ * @interface ZipEntry
+ * @property {string} name - Path of the file inside the archive, using forward slashes.
+ * @property {Uint8Array} data - The file contents.
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// ZIP format versions and flags
+const ZIP_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+
+// Largest size and count the classic (non-ZIP64) format can describe
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+/**
+ * Converts a date to the MS-DOS time and date fields of ZIP headers.
+ *
+ * @param {Date} date - The date to convert.
+ * @returns {[number, number]} The DOS time and DOS date.
+ */
+const toDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/**
+ * Creates a ZIP archive from a list of files.
+ *
+ * @param {ZipEntry[]} entries - The files, in the order they appear in the archive.
+ * @param {Date} [modified] - Modification time recorded for every file. Defaults to now.
+ * @returns {Blob} The ZIP archive.
+ */
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP archive can hold at most ${MAX_ZIP_ENTRIES} files`);
+  }
+
+  const encoder = new TextEncoder();
+  const [time, date] = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    // Local file header, followed by the name and the stored data
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Compression: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    // Central directory record pointing back at the local header
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+    centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('The ZIP archive is too large');
+    }
+  });
+
+  const directorySize = centralDirectory.reduce((size, part) => size + part.length, 0);
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
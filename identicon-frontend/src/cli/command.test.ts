@@ -0,0 +1,53 @@
+/**
+ * command.test.ts
+ *
+ * Tests of the command-line parser of the identicon tool, which must turn valid command lines into commands and reject
+ * invalid ones with a message naming the offending argument.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseCommand } from './command';
+
+describe('parseCommand', () => {
+  it('parses a valid command line', () => {
+    const command = parseCommand(['render', 'Jane', '--format', 'svg', '--size', '64', '--shapes', '3', '--out', 'jane.svg']);
+    expect(command).toMatchObject({
+      name: 'render',
+      input: 'Jane',
+      format: 'svg',
+      imageOptions: { size: 64, format: 'svg' },
+      specOptions: { shapes: 3 },
+      out: 'jane.svg',
+      outDir: '.',
+    });
+  });
+
+  it('lets batch read its seeds from stdin', () => {
+    expect(parseCommand(['batch', '--format', 'json'])).toMatchObject({ name: 'batch', input: undefined, format: 'json' });
+  });
+
+  it('returns null when help is requested', () => {
+    expect(parseCommand(['--help'])).toBeNull();
+    expect(parseCommand(['render', '--help'])).toBeNull();
+  });
+
+  it.each([
+    ['no command', [], 'Missing command'],
+    ['an unknown command', ['draw', 'Jane'], 'Unknown command "draw"'],
+    ['a render without a seed', ['render'], 'render needs a seed'],
+    ['an id without a seed', ['id'], 'id needs a seed'],
+    ['an extra argument', ['render', 'Jane', 'Janet'], 'Unexpected argument "Janet"'],
+    ['an unknown option', ['render', 'Jane', '--colour'], "'--colour'"],
+    ['an option without its value', ['render', 'Jane', '--size'], "'--size <value>'"],
+    ['an unknown format', ['render', 'Jane', '--format', 'gif'], '--format must be one of'],
+    ['an unknown charset', ['render', 'Jane', '--charset', 'emoji'], '--charset must be one of'],
+    ['a text width out of range', ['render', 'Jane', '--width', '1000'], '--width must be an integer'],
+    ['a size out of range', ['render', 'Jane', '--size', '4'], 'size must be an integer'],
+    ['a fractional shape count', ['render', 'Jane', '--shapes', '2.5'], 'shapes must be an integer'],
+    ['an unsupported spec version', ['render', 'Jane', '--spec-version', '9'], 'version must be one of'],
+    ['an empty namespace', ['render', 'Jane', '--namespace', ''], 'namespace must not be empty'],
+    ['a missing theme file', ['render', 'Jane', '--theme', '/nonexistent/theme.json'], '--theme: cannot load /nonexistent/theme.json'],
+  ])('rejects %s', (_, args, message) => {
+    expect(() => parseCommand(args)).toThrow(message);
+  });
+});
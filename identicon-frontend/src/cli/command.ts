@@ -0,0 +1,171 @@
+/**
+ * command.ts
+ *
+ * This file parses the command line of the identicon command-line tool into a command, validating the options with the
+ * same parsers as the query parameters of the API routes.
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { DEFAULT_IMAGE_SIZE, ImageOptions, IMAGE_FORMATS, parseImageOptions, parseSpecOptions } from '../app/identiconServer';
+import { DEFAULT_SHAPE_COUNT, IdenticonSpecOptions, IDENTICON_SPEC_VERSION } from '../app/identiconSpec';
+import { BATCH_MANIFEST_NAME } from '../app/batchExport';
+import { DEFAULT_FRAMING_MODE } from '../app/framing';
+import { DEFAULT_TEXT_WIDTH, MAX_TEXT_WIDTH, MIN_TEXT_WIDTH, TEXT_CHARSETS, TextCharset, TextOptions } from '../app/textRenderer';
+import { IdenticonTheme, parseTheme } from '../app/identiconTheme';
+import { DEFAULT_GRID_PADDING, DEFAULT_GRID_SIZE, MAX_GRID_PADDING, MAX_GRID_SIZE, MIN_GRID_SIZE } from '../app/gridIdenticon';
+
+// Output formats: the image formats of the image route, the spec itself as JSON, and randomart-style text
+export const OUTPUT_FORMATS = [...IMAGE_FORMATS, 'json', 'text'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export const USAGE = `Usage:
+  identicon render <seed> [options]   Render one identicon
+  identicon batch [file] [options]    Render the seeds listed in a file, or on stdin when the file is omitted or "-"
+  identicon id <seed>                 Print the identicon ID a keyed server serves the seed's identicon under
+
+Options:
+  --format <svg|png|json|text>
+                            Output format (default: png)
+  --size <pixels>           Width and height of images, 16-1024 (default: ${DEFAULT_IMAGE_SIZE})
+  --background <color>      "transparent" or a hex color such as "#1e293b" (default: transparent)
+  --style <style>           Identicon style: geometric or grid (default: geometric)
+  --framing <mode>          Camera framing: tight, padded or fixed (default: ${DEFAULT_FRAMING_MODE})
+  --shapes <count>          Number of shapes (default: the theme's, or ${DEFAULT_SHAPE_COUNT})
+  --theme <file>            Identicon theme file saved from the theme designer
+  --grid <cells>            Grid style: cells along each side, ${MIN_GRID_SIZE}-${MAX_GRID_SIZE} (default: ${DEFAULT_GRID_SIZE})
+  --padding <cells>         Grid style: margin around the grid in cells, 0-${MAX_GRID_PADDING} (default: ${DEFAULT_GRID_PADDING})
+  --charset <charset>       Text format: ascii, block or braille (default: ascii)
+  --width <characters>      Text format: width of the art, ${MIN_TEXT_WIDTH}-${MAX_TEXT_WIDTH} (default: ${DEFAULT_TEXT_WIDTH})
+  --color                   Text format: color the art with ANSI escape codes
+  --spec-version <version>  Spec algorithm version (default: the theme's, or ${IDENTICON_SPEC_VERSION})
+  --namespace <namespace>   Namespace the shape hashes are derived in
+  --out <file>              render: file to write instead of stdout
+  --out-dir <dir>           batch: directory to write the files and ${BATCH_MANIFEST_NAME} to (default: .)
+  --help                    Show this help
+
+Batch input is one seed per line, a CSV with a "username" column, or a JSON array of usernames or posts.
+`;
+
+/**
+ * A parsed command line.
+ *
+ * @interface Command
+ * @property {string} name - The command, "render", "batch" or "id".
+ * @property {string | undefined} input - The seed for render and id, the roster file for batch.
+ * @property {OutputFormat} format - The output format.
+ * @property {ImageOptions} imageOptions - Image options, used by the image formats. The style, framing and padding also apply to text.
+ * @property {TextOptions} textOptions - Text options, used by the text format.
+ * @property {Omit<IdenticonSpecOptions, 'key'>} specOptions - Options controlling the generated specs.
+ * @property {IdenticonTheme | undefined} theme - The theme of the identicons, when one is given.
+ * @property {string | undefined} out - render: the output file.
+ * @property {string} outDir - batch: the output directory.
+ */
+export interface Command {
+  name: 'render' | 'batch' | 'id';
+  input: string | undefined;
+  format: OutputFormat;
+  imageOptions: ImageOptions;
+  textOptions: TextOptions;
+  specOptions: Omit<IdenticonSpecOptions, 'key'>;
+  theme: IdenticonTheme | undefined;
+  out: string | undefined;
+  outDir: string;
+}
+
+/**
+ * Parses the command line. Invalid arguments throw an Error whose message is shown to the user.
+ *
+ * @param {string[]} args - The arguments after the script name.
+ * @returns {Command | null} The parsed command, or null when help was requested.
+ */
+export const parseCommand = (args: string[]): Command | null => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'format': { type: 'string', default: 'png' },
+      'size': { type: 'string' },
+      'background': { type: 'string' },
+      'style': { type: 'string' },
+      'framing': { type: 'string' },
+      'shapes': { type: 'string' },
+      'theme': { type: 'string' },
+      'grid': { type: 'string' },
+      'padding': { type: 'string' },
+      'charset': { type: 'string', default: 'ascii' },
+      'width': { type: 'string' },
+      'color': { type: 'boolean', default: false },
+      'spec-version': { type: 'string' },
+      'namespace': { type: 'string' },
+      'out': { type: 'string' },
+      'out-dir': { type: 'string', default: '.' },
+      'help': { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const [name, input, ...extra] = positionals;
+  if (name !== 'render' && name !== 'batch' && name !== 'id') {
+    throw new Error(name ? `Unknown command "${name}"` : 'Missing command');
+  }
+  if (name !== 'batch' && !input) {
+    throw new Error(`${name} needs a seed`);
+  }
+  if (extra.length) {
+    throw new Error(`Unexpected argument "${extra[0]}"`);
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const charset = values.charset as TextCharset;
+  if (!TEXT_CHARSETS.includes(charset)) {
+    throw new Error(`--charset must be one of ${TEXT_CHARSETS.join(', ')}`);
+  }
+  const width = Number(values.width ?? DEFAULT_TEXT_WIDTH);
+  if (!Number.isInteger(width) || width < MIN_TEXT_WIDTH || width > MAX_TEXT_WIDTH) {
+    throw new Error(`--width must be an integer between ${MIN_TEXT_WIDTH} and ${MAX_TEXT_WIDTH}`);
+  }
+
+  let themeJson: string | undefined;
+  let theme: IdenticonTheme | undefined;
+  if (values.theme !== undefined) {
+    try {
+      themeJson = readFileSync(values.theme, 'utf8');
+      theme = parseTheme(JSON.parse(themeJson));
+    } catch (error) {
+      throw new Error(`--theme: cannot load ${values.theme}: ${(error as Error).message}`);
+    }
+  }
+
+  // Options are validated by the same parsers as the query parameters of the API routes
+  const params = new URLSearchParams();
+  const setParam = (key: string, value: string | undefined) => { if (value !== undefined) params.set(key, value); };
+  setParam('size', values.size);
+  setParam('background', values.background);
+  setParam('style', values.style);
+  setParam('framing', values.framing);
+  setParam('shapes', values.shapes);
+  setParam('theme', themeJson);
+  setParam('grid', values.grid);
+  setParam('padding', values.padding);
+  setParam('version', values['spec-version']);
+  setParam('namespace', values.namespace);
+  if (format !== 'json' && format !== 'text') params.set('format', format);
+
+  return {
+    name,
+    input,
+    format,
+    imageOptions: parseImageOptions(params),
+    textOptions: { charset, width, color: values.color },
+    specOptions: parseSpecOptions(params),
+    theme,
+    out: values.out,
+    outDir: values['out-dir'] as string,
+  };
+};
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * identicon.ts
+ *
+ * This file is the identicon command-line tool, which generates identicons for build and provisioning scripts without a
+ * browser. It builds specs with the same seed derivation and shape logic as the site and renders them with the same
+ * GPU-free SVG and software renderers as the `/api/identicon/[seed]` route, so its JSON output is byte for byte the spec
+ * the site uses. When IDENTICON_SECRET is set, identicons are keyed exactly like the server's. The text format draws
+ * identicons as randomart, for comparing fingerprints by eye in a terminal or a log file.
+ *
+ * Build it with `npm run build:cli`, then run `npx identicon --help`.
+ *
+ * Exit codes: 0 on success, 1 when rendering or writing fails, 2 for invalid arguments or input.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildServerIdenticon, getIdenticonKey, issueIdenticonId, renderIdenticonImage } from '../app/identiconServer';
+import { DEFAULT_SHAPE_COUNT, IdenticonSpec, IDENTICON_SPEC_VERSION } from '../app/identiconSpec';
+import { BATCH_MANIFEST_NAME, BatchManifest, batchFilenames, batchManifestEntry, parseRoster } from '../app/batchExport';
+import { renderIdenticonText } from '../app/textRenderer';
+import { GridIdenticon } from '../app/gridIdenticon';
+import { Command, parseCommand, USAGE } from './command';
+
+// Exit codes of the tool
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Renders an identicon in the requested output format.
+ *
+ * @param {IdenticonSpec | GridIdenticon} identicon - The identicon spec or grid identicon, as built by buildServerIdenticon.
+ * @param {Command} command - The parsed command line.
+ * @returns {string | Buffer} The output file contents.
+ */
+const renderOutput = (identicon: IdenticonSpec | GridIdenticon, { format, imageOptions, textOptions }: Command): string | Buffer => {
+  if (format === 'text') {
+    return renderIdenticonText(identicon, { ...textOptions, framing: imageOptions.framing, padding: imageOptions.padding });
+  }
+  // Specs are serialized like the `/api/spec/[seed]` route, so the output matches it byte for byte
+  return format === 'json' ? JSON.stringify(identicon) : renderIdenticonImage(identicon, imageOptions);
+};
+
+/**
+ * Runs the render command.
+ *
+ * @param {Command} command - The parsed command line.
+ * @returns {number} The exit code.
+ */
+const runRender = (command: Command): number => {
+  const output = renderOutput(buildServerIdenticon(command.input as string, command.specOptions, command.imageOptions), command);
+  if (command.out) {
+    writeFileSync(command.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+  return EXIT_OK;
+};
+
+/**
+ * Runs the id command, which prints the identicon ID of a seed. Keyed servers only serve identicons by ID, so the
+ * backend of a site issues its users' IDs with this command or with issueIdenticonId.
+ *
+ * @param {Command} command - The parsed command line.
+ * @returns {number} The exit code.
+ */
+const runId = (command: Command): number => {
+  process.stdout.write(`${issueIdenticonId(command.input as string)}\n`);
+  return EXIT_OK;
+};
+
+/**
+ * Runs the batch command, writing one file per seed and a manifest to the output directory.
+ *
+ * @param {Command} command - The parsed command line.
+ * @returns {number} The exit code.
+ */
+const runBatch = (command: Command): number => {
+  const { input, format, outDir } = command;
+
+  let seeds: string[];
+  try {
+    seeds = parseRoster(readFileSync(!input || input === '-' ? process.stdin.fd : input, 'utf8'));
+  } catch (error) {
+    console.error(`identicon: cannot read seeds: ${(error as Error).message}`);
+    return EXIT_USAGE;
+  }
+  if (!seeds.length) {
+    console.error('identicon: no seeds given');
+    return EXIT_USAGE;
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  const filenames = batchFilenames(seeds, format === 'text' ? 'txt' : format);
+  const manifest: BatchManifest = {
+    specVersion: command.specOptions.version ?? IDENTICON_SPEC_VERSION,
+    shapes: command.specOptions.shapes ?? DEFAULT_SHAPE_COUNT,
+    size: command.imageOptions.size,
+    format,
+    ...(command.theme && { theme: command.theme }),
+    identicons: [],
+  };
+
+  let failures = 0;
+  seeds.forEach((seed, i) => {
+    try {
+      const identicon = buildServerIdenticon(seed, command.specOptions, command.imageOptions);
+      writeFileSync(join(outDir, filenames[i]), renderOutput(identicon, command));
+      manifest.identicons.push(batchManifestEntry(seed, filenames[i], identicon, getIdenticonKey()));
+      manifest.specVersion = identicon.version;
+    } catch (error) {
+      failures++;
+      console.error(`identicon: failed to render "${seed}": ${(error as Error).message}`);
+    }
+  });
+
+  writeFileSync(join(outDir, BATCH_MANIFEST_NAME), JSON.stringify(manifest, null, 2));
+  console.error(`identicon: wrote ${manifest.identicons.length} of ${seeds.length} identicons to ${outDir}`);
+  return failures ? EXIT_FAILURE : EXIT_OK;
+};
+
+/**
+ * Entry point of the tool.
+ *
+ * @param {string[]} args - The arguments after the script name.
+ * @returns {number} The exit code.
+ */
+const main = (args: string[]): number => {
+  let command: Command | null;
+  try {
+    command = parseCommand(args);
+  } catch (error) {
+    console.error(`identicon: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (!command) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    switch (command.name) {
+      case 'render':
+        return runRender(command);
+      case 'batch':
+        return runBatch(command);
+      case 'id':
+        return runId(command);
+    }
+  } catch (error) {
+    console.error(`identicon: ${(error as Error).message}`);
+    return EXIT_FAILURE;
+  }
+};
+
+// Readers such as `head` may close the pipe before everything is written, which is not a failure of the tool
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EPIPE') throw error;
+  process.exit(EXIT_OK);
+});
+
+process.exitCode = main(process.argv.slice(2));
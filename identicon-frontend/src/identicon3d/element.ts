@@ -0,0 +1,21 @@
+/**
+ * element.ts
+ *
+ * This file is the entry point of the `<identicon-3d>` custom element, for pages that do not use React. Importing it
+ * in the browser registers the element, after which identicons are plain markup:
+ *
+ *   import '@/identicon3d/element';
+ *   <identicon-3d seed="Jane" size="64" variant="geometric"></identicon-3d>
+ */
+
+import { defineIdenticonElement } from '../app/identiconElement';
+
+if (typeof window !== 'undefined') defineIdenticonElement();
+
+export {
+  DEFAULT_ELEMENT_SIZE,
+  defineIdenticonElement,
+  IDENTICON_ELEMENT_ATTRIBUTES,
+  IDENTICON_ELEMENT_TAG,
+} from '../app/identiconElement';
+export type { IdenticonElement } from '../app/identiconElement';
@@ -0,0 +1,18 @@
+/**
+ * index.ts
+ *
+ * This file is the entry point of the Identicon3D module, for apps that show identicons with the same component as
+ * this site: `import Identicon3D from '@/identicon3d'`. It exports the component, the types of its props and handle,
+ * and the style, framing and export settings its props accept.
+ */
+
+export { default, default as Identicon3D } from '../app/Identicon3D';
+export type { Identicon3DHandle, Identicon3DProps } from '../app/Identicon3D';
+export { DEFAULT_STYLE_ID, IDENTICON_STYLE_IDS, IDENTICON_STYLES } from '../app/identiconStyles';
+export type { IdenticonStyleId, StyleOptionSchema } from '../app/identiconStyles';
+export { DEFAULT_FRAMING_MODE, FRAMING_MODES } from '../app/framing';
+export type { FramingMode } from '../app/framing';
+export { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS } from '../app/exportRenderer';
+export type { ExportFormat, ExportOptions } from '../app/exportRenderer';
+export { buildIdenticonSpec, DEFAULT_SHAPE_COUNT } from '../app/identiconSpec';
+export type { IdenticonSpec } from '../app/identiconSpec';
@@ -0,0 +1,28 @@
+/**
+ * gifshot.d.ts
+ *
+ * Type declarations for the parts of the gifshot library used to encode animated identicons.
+ */
+
+declare module 'gifshot' {
+  interface CreateGIFOptions {
+    images?: (string | HTMLImageElement)[];
+    gifWidth?: number;
+    gifHeight?: number;
+    interval?: number;
+    numFrames?: number;
+    frameDuration?: number;
+    sampleInterval?: number;
+    numWorkers?: number;
+    progressCallback?: (progress: number) => void;
+  }
+
+  interface CreateGIFResult {
+    error: boolean;
+    errorCode?: string;
+    errorMsg?: string;
+    image?: string;
+  }
+
+  export function createGIF(options: CreateGIFOptions, callback: (result: CreateGIFResult) => void): void;
+}